@@ -0,0 +1,1365 @@
+import {
+  ChatConfig,
+  ChatConfigWithDefaults,
+  applyConfigDefaults,
+  ChatState,
+  ChatAppRemoteConfig,
+  ChatMessage,
+  PaginatedMessages,
+  SendMessageResponse,
+  EditMessageResponse,
+  UserData,
+  SendProgressCallback,
+  UploadFile,
+  UploadResponse,
+  UploadSession,
+  UploadItem,
+  UploadKind,
+  UploadTransformer,
+  OutboxItem,
+  ConnectionState,
+  AuthErrorEvent,
+  ParticipantEvent,
+  ReadReceiptEvent,
+  MessageDeletedEvent,
+  MessageReactionEvent,
+  applyReadReceipt,
+  applyMessageDeletion,
+  applyMessageReaction,
+  findMessageById,
+  createIdleConnectionState,
+  createEmptyPaginatedMessages,
+  parseChatMessage,
+} from '../types';
+import { ChatApiService, CancelToken } from '../services/api.service';
+import { ChatSocketService, MessageCallback } from '../services/socket.service';
+import { ChatStorageService } from '../services/storage.service';
+import { ChatOutboxService } from '../services/outbox.service';
+import { ChatChunkedUploadService } from '../services/chunked-upload.service';
+import { ChatUploadQueueService } from '../services/upload-queue.service';
+import { ChatUnreadService } from '../services/unread.service';
+import { ChatMessageCacheService } from '../services/cache.service';
+import { ChatSyncService } from '../services/sync.service';
+import { ChatLifecycleService } from '../services/lifecycle.service';
+import {
+  ChatApiException,
+  ChatException,
+  ChatValidationException,
+  MessageQueuedException,
+  RequestCancelledException,
+} from '../utils/errors';
+import { generateId, generateTempMessageId } from '../utils/id';
+import { ResolvedUploadFile, applyUploadTransformers, resolveUploadFile } from '../utils/upload';
+import { ScopedLogger, createLoggerFromConfig } from '../utils/logger';
+
+/**
+ * Chat state change listener
+ */
+export type ChatStateListener = (state: ChatState) => void;
+
+/**
+ * Create the initial (empty) chat state
+ */
+function createInitialState(
+  connectionState: ConnectionState = createIdleConnectionState()
+): ChatState {
+  return {
+    isInitialized: false,
+    isConnected: false,
+    connectionState,
+    isRegistered: false,
+    remoteConfig: null,
+    browserKey: null,
+    chatId: null,
+    error: null,
+  };
+}
+
+/**
+ * Framework-agnostic FCRM Chat client
+ *
+ * Owns the API, socket and storage services and exposes the same surface as
+ * the React context, so it can be used from background tasks, plain scripts
+ * or non-React code.
+ *
+ * @example
+ * ```ts
+ * const client = new FcrmChatClient(chatConfig);
+ * const unsubscribe = client.subscribe((state) => console.log(state.isConnected));
+ *
+ * await client.initialize();
+ * await client.sendMessage('Hello!');
+ * ```
+ */
+export class FcrmChatClient {
+  readonly config: ChatConfigWithDefaults;
+  readonly apiService: ChatApiService;
+  readonly socketService: ChatSocketService;
+  readonly storageService: ChatStorageService;
+  readonly outboxService: ChatOutboxService;
+  readonly chunkedUploadService: ChatChunkedUploadService;
+  readonly uploadQueueService: ChatUploadQueueService;
+  readonly unreadService: ChatUnreadService;
+  readonly messageCacheService: ChatMessageCacheService;
+  readonly syncService: ChatSyncService;
+  readonly lifecycleService: ChatLifecycleService | null;
+
+  private state: ChatState;
+  private stateListeners: Set<ChatStateListener> = new Set();
+  private messageCallbacks: Set<MessageCallback> = new Set();
+  private readReceiptCallbacks: Set<(event: ReadReceiptEvent) => void> = new Set();
+  private messageDeletedCallbacks: Set<(event: MessageDeletedEvent) => void> = new Set();
+  private messageReactionCallbacks: Set<(event: MessageReactionEvent) => void> = new Set();
+  /** Newest incoming message marked as read (or being marked) by this user */
+  private lastReadMessageId = 0;
+  private serviceUnsubscribers: Array<() => void> = [];
+  /** Incremented by dispose(), so an initialize() still running can tell it was disposed */
+  private generation = 0;
+  private resumeConnectionOnForeground = false;
+  private uploadTransformers: UploadTransformer[];
+  private logger: ScopedLogger;
+
+  constructor(config: ChatConfig) {
+    this.config = applyConfigDefaults(config);
+    this.logger = createLoggerFromConfig(this.config, 'state');
+    this.uploadTransformers = [...(this.config.upload?.transformers ?? [])];
+    this.apiService = new ChatApiService(this.config);
+    this.socketService = new ChatSocketService(
+      createLoggerFromConfig(this.config, 'socket'),
+      this.config.reconnection
+    );
+    this.storageService = new ChatStorageService(
+      this.config.appKey,
+      this.config.storage,
+      createLoggerFromConfig(this.config, 'storage')
+    );
+    this.outboxService = new ChatOutboxService(
+      this.storageService,
+      (item) =>
+        this.apiService.sendMessage(
+          this.requireBrowserKey(),
+          item.message,
+          item.endpoint,
+          item.metadata,
+          // Same key as the original attempt, so a send that reached the server is not duplicated
+          item.id,
+          undefined,
+          item.replyToId
+        ),
+      this.config.outbox,
+      createLoggerFromConfig(this.config, 'api')
+    );
+    this.chunkedUploadService = new ChatChunkedUploadService(
+      this.apiService,
+      this.storageService,
+      this.config.upload?.chunked,
+      createLoggerFromConfig(this.config, 'api')
+    );
+    this.uploadQueueService = new ChatUploadQueueService(
+      (item, onProgress, signal) =>
+        item.kind === 'image'
+          ? this.sendImage(item.file, item.endpoint, onProgress, signal, item.idempotencyKey)
+          : this.sendFile(item.file, item.endpoint, onProgress, signal, item.idempotencyKey),
+      this.config.upload?.queue,
+      createLoggerFromConfig(this.config, 'api')
+    );
+    this.unreadService = new ChatUnreadService(
+      this.storageService,
+      createLoggerFromConfig(this.config, 'state')
+    );
+    this.messageCacheService = new ChatMessageCacheService(
+      this.config.appKey,
+      this.config.messageCache?.storage ?? this.storageService.storageAdapter,
+      this.config.messageCache?.maxMessages,
+      createLoggerFromConfig(this.config, 'storage')
+    );
+    this.syncService = new ChatSyncService(
+      (page, perPage, signal) =>
+        this.apiService.getMessages(this.requireBrowserKey(), page, perPage, signal),
+      this.config.sync,
+      createLoggerFromConfig(this.config, 'api')
+    );
+    const lifecycle = this.config.lifecycle;
+    this.lifecycleService =
+      lifecycle && lifecycle.enabled !== false
+        ? new ChatLifecycleService(
+            lifecycle.appState,
+            {
+              onSuspend: () => this.handleSuspend(),
+              onResume: (wasSuspended) => this.handleResume(wasSuspended),
+            },
+            lifecycle.backgroundGracePeriod,
+            this.logger
+          )
+        : null;
+    this.state = createInitialState(this.socketService.connectionState);
+  }
+
+  /**
+   * Whether confirmed messages are cached locally
+   */
+  private get isMessageCacheEnabled(): boolean {
+    return this.config.messageCache?.enabled !== false;
+  }
+
+  /**
+   * Whether failed text messages are queued in the outbox automatically
+   */
+  private get isOutboxEnabled(): boolean {
+    return this.config.outbox !== undefined && this.config.outbox.enabled !== false;
+  }
+
+  /**
+   * Current chat state snapshot
+   */
+  getState(): ChatState {
+    return this.state;
+  }
+
+  /**
+   * Whether the chat app is active
+   */
+  get isActive(): boolean {
+    return this.state.remoteConfig?.isActive ?? false;
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ChatStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Merge a partial state and notify listeners
+   */
+  private setState(partial: Partial<ChatState>): void {
+    this.state = { ...this.state, ...partial };
+    this.stateListeners.forEach((listener) => listener(this.state));
+  }
+
+  /**
+   * Ensure the SDK has been initialized
+   */
+  private assertInitialized(): void {
+    if (!this.state.isInitialized) {
+      throw new ChatException('Chat not initialized. Call initialize() first.');
+    }
+  }
+
+  /**
+   * Ensure the SDK is initialized and a browser key is available
+   */
+  private requireBrowserKey(): string {
+    this.assertInitialized();
+    if (!this.state.browserKey) {
+      throw new ChatException('Not registered. Call register() first.');
+    }
+    return this.state.browserKey;
+  }
+
+  /**
+   * Notify all message callbacks (socket messages and local message updates)
+   */
+  private notifyMessage(message: ChatMessage): void {
+    this.messageCallbacks.forEach((callback) => callback(message));
+    this.recordMessages([message]);
+  }
+
+  /**
+   * Notify deleted-message callbacks, update the local cache and the unread count
+   */
+  private notifyMessageDeleted(event: MessageDeletedEvent): void {
+    this.unreadService.remove(event.messageId);
+    this.messageDeletedCallbacks.forEach((callback) => callback(event));
+
+    const browserKey = this.state.browserKey;
+    if (this.isMessageCacheEnabled && browserKey) {
+      this.messageCacheService.update(browserKey, (messages) =>
+        applyMessageDeletion(messages, event)
+      );
+    }
+  }
+
+  /**
+   * Notify reaction callbacks and update the local cache
+   */
+  private notifyMessageReaction(event: MessageReactionEvent): void {
+    this.messageReactionCallbacks.forEach((callback) => callback(event));
+
+    const browserKey = this.state.browserKey;
+    if (this.isMessageCacheEnabled && browserKey) {
+      this.messageCacheService.update(browserKey, (messages) =>
+        applyMessageReaction(messages, event)
+      );
+    }
+  }
+
+  /**
+   * Notify read receipt callbacks and update the local cache
+   */
+  private notifyReadReceipt(event: ReadReceiptEvent): void {
+    if (event.readerType === 'user') {
+      this.lastReadMessageId = Math.max(this.lastReadMessageId, event.messageId);
+      this.unreadService.markRead(event.messageId);
+    }
+    this.readReceiptCallbacks.forEach((callback) => callback(event));
+
+    const browserKey = this.state.browserKey;
+    if (this.isMessageCacheEnabled && browserKey) {
+      this.messageCacheService.update(browserKey, (messages) => applyReadReceipt(messages, event));
+    }
+  }
+
+  /**
+   * Track messages for catch-up sync and the unread count, and add them to the
+   * local cache (in the background)
+   */
+  private recordMessages(messages: ChatMessage[], browserKey = this.state.browserKey): void {
+    // Only server-fetched and socket messages move the catch-up cursor: our own
+    // sends (with a clientId) can be newer than agent messages missed while offline
+    this.syncService.track(messages.filter((m) => m.clientId === undefined));
+    this.unreadService.track(messages);
+
+    if (!this.isMessageCacheEnabled || !browserKey) return;
+    this.messageCacheService.addMessages(browserKey, messages);
+  }
+
+  /**
+   * Build an optimistic message for a text we are about to send
+   */
+  private createLocalMessage(
+    content: string,
+    metadata?: Record<string, unknown>,
+    clientId: string = generateId('local-'),
+    replyToId?: number
+  ): ChatMessage {
+    return {
+      id: generateTempMessageId(),
+      clientId,
+      chatId: this.state.chatId ?? 0,
+      content,
+      type: 'user',
+      createdAt: new Date(),
+      isRead: false,
+      metadata,
+      status: 'pending',
+      // The preview content is filled in from the loaded messages or the server echo
+      replyTo: replyToId !== undefined ? { id: replyToId, content: '' } : undefined,
+    };
+  }
+
+  /**
+   * Build the confirmed version of a local message
+   */
+  private confirmLocalMessage(message: ChatMessage, response: SendMessageResponse): ChatMessage {
+    return {
+      ...message,
+      id: response.userMessageId || message.id,
+      chatId: response.chatId || message.chatId,
+      status: 'sent',
+    };
+  }
+
+  /**
+   * Build the local message representing an outbox item
+   */
+  private createOutboxMessage(item: OutboxItem): ChatMessage {
+    return {
+      ...this.createLocalMessage(item.message, item.metadata, item.id, item.replyToId),
+      createdAt: item.createdAt,
+    };
+  }
+
+  /**
+   * Wire service events into the client state and message pipeline
+   */
+  private bindServiceEvents(): void {
+    this.unbindServiceEvents();
+
+    this.serviceUnsubscribers = [
+      this.socketService.onMessage((message) => {
+        this.notifyMessage(message);
+      }),
+      this.socketService.onMessageDeleted((event) => {
+        this.notifyMessageDeleted(event);
+      }),
+      this.socketService.onReadReceipt((event) => {
+        this.notifyReadReceipt(event);
+      }),
+      this.socketService.onMessageReaction((event) => {
+        this.notifyMessageReaction(event);
+      }),
+      this.socketService.onConnectionStateChange((connectionState) => {
+        this.setState({ connectionState });
+      }),
+      this.socketService.onConnectionChange((connected) => {
+        this.setState({ isConnected: connected });
+
+        // Connectivity is back: catch up on missed messages and send whatever is waiting in the outbox
+        if (connected && this.state.browserKey) {
+          if (this.config.sync?.enabled !== false) {
+            this.syncMissedMessages().catch((e) => {
+              // Catch-up is retried on the next reconnect
+              this.logger.warn('Catch-up failed', { error: e });
+            });
+          }
+          this.outboxService.flush(true);
+        }
+      }),
+      this.socketService.onBrowserKeyUpdate(async (key) => {
+        this.setState({ browserKey: key });
+        await this.storageService.saveBrowserKey(key);
+      }),
+      this.outboxService.onSent((item, response) => {
+        this.notifyMessage(this.confirmLocalMessage(this.createOutboxMessage(item), response));
+      }),
+      this.outboxService.onFailed((item) => {
+        this.notifyMessage({ ...this.createOutboxMessage(item), status: 'failed' });
+      }),
+    ];
+  }
+
+  /**
+   * Remove service event wiring
+   */
+  private unbindServiceEvents(): void {
+    this.serviceUnsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.serviceUnsubscribers = [];
+  }
+
+  /**
+   * Connect the socket using the remote configuration
+   */
+  private connectSocket(remoteConfig: ChatAppRemoteConfig, browserKey: string | null): void {
+    this.socketService.connect(
+      this.config.socketUrl ?? remoteConfig.socketUrl,
+      remoteConfig.socketApiKey,
+      browserKey ?? undefined
+    );
+  }
+
+  /**
+   * Disconnect the socket after the app stayed in background
+   */
+  private handleSuspend(): void {
+    this.resumeConnectionOnForeground = this.state.connectionState.status !== 'idle';
+    this.socketService.disconnect();
+  }
+
+  /**
+   * Restore the connection when the app returns to the foreground
+   */
+  private handleResume(wasSuspended: boolean): void {
+    if (wasSuspended) {
+      // Reconnecting rejoins the chat room and catches up on missed messages
+      if (this.resumeConnectionOnForeground) {
+        this.reconnect();
+      }
+      this.resumeConnectionOnForeground = false;
+      return;
+    }
+
+    const status = this.state.connectionState.status;
+    if (status === 'failed') {
+      // The OS may have killed the socket while in background
+      this.reconnect();
+    } else if (status === 'connected' && this.state.browserKey) {
+      this.syncMissedMessages().catch((e) => {
+        // Catch-up is retried on the next reconnect
+        this.logger.warn('Catch-up failed', { error: e });
+      });
+    }
+  }
+
+  /**
+   * Initialize the chat SDK
+   */
+  async initialize(signal?: AbortSignal): Promise<void> {
+    if (this.state.isInitialized) return;
+    const generation = this.generation;
+
+    try {
+      // Get remote configuration
+      const remoteConfig = await this.apiService.getConfig(signal);
+      this.assertStillInitializing(generation, signal);
+
+      if (!remoteConfig.isActive) {
+        throw new ChatException('Chat app is not active');
+      }
+
+      // Get stored browser key
+      const browserKey = await this.storageService.getBrowserKey();
+      const isRegistered = await this.storageService.isRegistered();
+
+      // Restore messages queued in a previous session and show them as pending
+      const restored = await this.outboxService.load();
+      restored.forEach((item) => {
+        const message = this.createOutboxMessage(item);
+        this.notifyMessage(item.status === 'failed' ? { ...message, status: 'failed' } : message);
+      });
+      await this.chunkedUploadService.load();
+      await this.unreadService.load();
+      this.lastReadMessageId = Math.max(this.lastReadMessageId, this.unreadService.lastReadMessageId);
+
+      // Use the newest cached incoming message as the catch-up baseline
+      this.syncService.seed(await this.getCachedMessages());
+
+      // Aborted or disposed while loading: do not bind events or open a socket
+      this.assertStillInitializing(generation, signal);
+
+      // Connect to socket
+      this.bindServiceEvents();
+      this.connectSocket(remoteConfig, browserKey);
+
+      this.setState({
+        isInitialized: true,
+        isRegistered,
+        remoteConfig,
+        browserKey,
+        error: null,
+      });
+
+      this.lifecycleService?.start();
+      this.logger.info('Initialized', { isRegistered });
+    } catch (e) {
+      if (e instanceof RequestCancelledException) throw e;
+      const error = e instanceof Error ? e : new Error(String(e));
+      this.logger.error('Initialization failed', { error });
+      this.setState({ error });
+      throw e;
+    }
+  }
+
+  /**
+   * Throw if initialize() was aborted or the client disposed since it started
+   */
+  private assertStillInitializing(generation: number, signal?: AbortSignal): void {
+    if (signal?.aborted || generation !== this.generation) {
+      throw new RequestCancelledException();
+    }
+  }
+
+  /**
+   * Register a new browser/device
+   */
+  async register(userData: UserData, endpoint?: string, signal?: AbortSignal): Promise<void> {
+    this.assertInitialized();
+
+    // Validate required fields
+    const requiredFields = this.state.remoteConfig?.requiredFields ?? {};
+    this.logger.debug('Validating registration', {
+      requiredFields: Object.keys(requiredFields),
+      userDataFields: Object.keys(userData),
+    });
+
+    const fieldErrors: Record<string, string[]> = {};
+    const missing: string[] = [];
+    for (const [key, label] of Object.entries(requiredFields)) {
+      const value = userData[key];
+      if (value == null || String(value).trim() === '') {
+        fieldErrors[key] = [`${label} is required`];
+        missing.push(`${label} (key: ${key})`);
+      }
+    }
+    if (missing.length > 0) {
+      throw new ChatValidationException(`Missing required field: ${missing.join(', ')}`, fieldErrors);
+    }
+
+    // Register browser
+    const response = await this.apiService.registerBrowser(userData, endpoint, undefined, signal);
+
+    // Save to storage
+    await this.storageService.saveBrowserKey(response.browserKey);
+    const userDataWithMeta = {
+      ...userData,
+      registered: true,
+      registrationDate: new Date().toISOString(),
+    };
+    await this.storageService.saveUserData(userDataWithMeta);
+
+    // Update socket connection
+    this.socketService.updateBrowserKey(response.browserKey);
+
+    this.setState({
+      isRegistered: true,
+      browserKey: response.browserKey,
+      chatId: response.chatId ?? null,
+    });
+  }
+
+  /**
+   * Update browser/device information
+   */
+  async updateBrowser(userData: UserData, signal?: AbortSignal): Promise<ChatMessage[]> {
+    const browserKey = this.requireBrowserKey();
+
+    const response = await this.apiService.updateBrowser(browserKey, userData, signal);
+
+    // Parse last messages
+    const messages: ChatMessage[] = [];
+    if (response.lastMessages) {
+      for (const m of response.lastMessages) {
+        if (typeof m === 'object' && m !== null) {
+          messages.push(parseChatMessage(m as Record<string, unknown>));
+        }
+      }
+    }
+
+    // Update storage
+    await this.storageService.saveUserData(userData);
+
+    this.setState({ chatId: response.chatId ?? this.state.chatId });
+
+    return messages;
+  }
+
+  /**
+   * Update specific user data fields (partial update)
+   */
+  async updateUserData(
+    data: Partial<UserData>,
+    signal?: AbortSignal
+  ): Promise<Record<string, unknown>> {
+    const browserKey = this.requireBrowserKey();
+
+    const response = await this.apiService.updateUserData(browserKey, data, signal);
+
+    // Update stored user data
+    await this.storageService.saveUserData(response.userData);
+
+    return response.userData;
+  }
+
+  /**
+   * Update only the client name
+   */
+  updateName(name: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    return this.updateUserData({ name }, signal);
+  }
+
+  /**
+   * Update only the client phone
+   */
+  updatePhone(phone: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    return this.updateUserData({ phone }, signal);
+  }
+
+  /**
+   * Update only the client email
+   */
+  updateEmail(email: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    return this.updateUserData({ email }, signal);
+  }
+
+  /**
+   * Send a text message
+   *
+   * An optimistic message (negative id, `status: 'pending'`) is emitted through
+   * onMessage right away and reconciled with the server id once sent.
+   *
+   * @param replyToId - Id of the message this one replies to
+   */
+  async sendMessage(
+    message: string,
+    endpoint?: string,
+    metadata?: Record<string, unknown>,
+    signal?: AbortSignal,
+    replyToId?: number
+  ): Promise<SendMessageResponse> {
+    const browserKey = this.requireBrowserKey();
+
+    const localMessage = this.createLocalMessage(message, metadata, undefined, replyToId);
+    this.notifyMessage(localMessage);
+
+    try {
+      const response = await this.apiService.sendMessage(
+        browserKey,
+        message,
+        endpoint,
+        metadata,
+        localMessage.clientId,
+        signal,
+        replyToId
+      );
+      this.notifyMessage(this.confirmLocalMessage(localMessage, response));
+      return response;
+    } catch (e) {
+      if (!this.isOutboxEnabled || !ChatOutboxService.isRetryableError(e)) {
+        this.notifyMessage({ ...localMessage, status: 'failed' });
+        throw e;
+      }
+
+      // Keep the message (still pending) and retry it later instead of losing it
+      const error = e as ChatApiException;
+      const item = await this.outboxService.enqueue(message, endpoint, metadata, {
+        id: localMessage.clientId,
+        lastError: error.message,
+        replyToId,
+      });
+      throw new MessageQueuedException(error.message, error.statusCode, item.id);
+    }
+  }
+
+  /**
+   * Queue a text message in the outbox and send it as soon as possible
+   */
+  async queueMessage(
+    message: string,
+    endpoint?: string,
+    metadata?: Record<string, unknown>,
+    replyToId?: number
+  ): Promise<OutboxItem> {
+    this.requireBrowserKey();
+
+    const item = await this.outboxService.enqueue(message, endpoint, metadata, { replyToId });
+    this.notifyMessage(this.createOutboxMessage(item));
+    this.outboxService.flush();
+    return item;
+  }
+
+  /**
+   * Get messages waiting in the outbox
+   */
+  getOutboxItems(): OutboxItem[] {
+    return this.outboxService.getItems();
+  }
+
+  /**
+   * Retry an outbox item immediately
+   */
+  async retryOutboxItem(id: string): Promise<void> {
+    this.requireBrowserKey();
+    await this.outboxService.retry(id);
+  }
+
+  /**
+   * Remove an item from the outbox without sending it
+   */
+  async removeOutboxItem(id: string): Promise<void> {
+    await this.outboxService.remove(id);
+  }
+
+  /**
+   * Send all queued outbox items now
+   */
+  async flushOutbox(): Promise<void> {
+    this.requireBrowserKey();
+    await this.outboxService.flush(true);
+  }
+
+  /**
+   * Edit a message
+   */
+  async editMessage(
+    messageId: number,
+    content: string,
+    signal?: AbortSignal
+  ): Promise<EditMessageResponse> {
+    const browserKey = this.requireBrowserKey();
+    return await this.apiService.editMessage(browserKey, messageId, content, signal);
+  }
+
+  /**
+   * Delete (unsend) one of our own messages
+   */
+  async deleteMessage(messageId: number, signal?: AbortSignal): Promise<void> {
+    const browserKey = this.requireBrowserKey();
+    const response = await this.apiService.deleteMessage(browserKey, messageId, signal);
+    this.notifyMessageDeleted({
+      messageId: response.messageId,
+      chatId: this.state.chatId ?? undefined,
+      deletedAt: response.deletedAt,
+      data: {},
+    });
+  }
+
+  /**
+   * React to a message with an emoji
+   */
+  async addReaction(messageId: number, emoji: string, signal?: AbortSignal): Promise<void> {
+    const browserKey = this.requireBrowserKey();
+    const response = await this.apiService.addReaction(browserKey, messageId, emoji, signal);
+    this.notifyMessageReaction({
+      messageId: response.messageId,
+      emoji,
+      action: 'added',
+      reactorType: 'user',
+      reactions: response.reactions,
+      data: {},
+    });
+  }
+
+  /**
+   * Remove this user's emoji reaction from a message
+   */
+  async removeReaction(messageId: number, emoji: string, signal?: AbortSignal): Promise<void> {
+    const browserKey = this.requireBrowserKey();
+    const response = await this.apiService.removeReaction(browserKey, messageId, emoji, signal);
+    this.notifyMessageReaction({
+      messageId: response.messageId,
+      emoji,
+      action: 'removed',
+      reactorType: 'user',
+      reactions: response.reactions,
+      data: {},
+    });
+  }
+
+  /**
+   * Mark incoming messages up to and including a message as read
+   *
+   * Calls for messages already marked as read are skipped.
+   */
+  async markAsRead(upToMessageId: number, signal?: AbortSignal): Promise<void> {
+    const browserKey = this.requireBrowserKey();
+    const previous = this.lastReadMessageId;
+    if (upToMessageId <= previous) return;
+
+    this.lastReadMessageId = upToMessageId;
+    try {
+      const response = await this.apiService.markAsRead(browserKey, upToMessageId, signal);
+      this.notifyReadReceipt({
+        messageId: response.messageId,
+        readAt: response.readAt,
+        readerType: 'user',
+        chatId: this.state.chatId ?? undefined,
+        data: {},
+      });
+    } catch (e) {
+      // Let a later call try again
+      if (this.lastReadMessageId === upToMessageId) {
+        this.lastReadMessageId = previous;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Mark all incoming messages as read (resets the unread count)
+   */
+  async markAllAsRead(signal?: AbortSignal): Promise<void> {
+    const latest = this.unreadService.latestUnreadMessageId;
+    if (latest === null) return;
+    await this.markAsRead(latest, signal);
+  }
+
+  /**
+   * Number of unread admin/ai messages (persisted across restarts)
+   */
+  getUnreadCount(): number {
+    return this.unreadService.count;
+  }
+
+  /**
+   * Upload and send an image
+   *
+   * The image runs through the upload transformers first; large images are
+   * uploaded in chunks when chunked uploads are enabled.
+   *
+   * @param idempotencyKey - Reuse the same key when retrying so the image is never sent twice
+   */
+  async sendImage(
+    image: string | UploadFile,
+    endpoint?: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    const browserKey = this.requireBrowserKey();
+    const file = await this.prepareUpload('image', image);
+    if (this.chunkedUploadService.shouldChunk(file)) {
+      return await this.chunkedUploadService.upload(
+        browserKey,
+        'image',
+        file,
+        endpoint,
+        onProgress,
+        cancelToken,
+        idempotencyKey
+      );
+    }
+    return await this.apiService.uploadImage(
+      browserKey,
+      file,
+      endpoint,
+      onProgress,
+      cancelToken,
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Upload and send a file
+   *
+   * The file runs through the upload transformers first; large files are
+   * uploaded in chunks when chunked uploads are enabled.
+   *
+   * @param idempotencyKey - Reuse the same key when retrying so the file is never sent twice
+   */
+  async sendFile(
+    file: string | UploadFile,
+    endpoint?: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    const browserKey = this.requireBrowserKey();
+    const prepared = await this.prepareUpload('file', file);
+    if (this.chunkedUploadService.shouldChunk(prepared)) {
+      return await this.chunkedUploadService.upload(
+        browserKey,
+        'file',
+        prepared,
+        endpoint,
+        onProgress,
+        cancelToken,
+        idempotencyKey
+      );
+    }
+    return await this.apiService.uploadFile(
+      browserKey,
+      prepared,
+      endpoint,
+      onProgress,
+      cancelToken,
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Add an upload transformer (runs after the configured ones)
+   * @returns Function that removes the transformer
+   */
+  addUploadTransformer(transformer: UploadTransformer): () => void {
+    this.uploadTransformers.push(transformer);
+    return () => {
+      this.uploadTransformers = this.uploadTransformers.filter((t) => t !== transformer);
+    };
+  }
+
+  /**
+   * Resolve a file to upload and run it through the upload transformers
+   */
+  private async prepareUpload(
+    kind: UploadKind,
+    file: string | UploadFile
+  ): Promise<ResolvedUploadFile> {
+    const mimeTypes = this.apiService.mimeTypes;
+    const resolved = resolveUploadFile(file, mimeTypes, kind === 'image' ? 'image/jpeg' : undefined);
+    if (this.uploadTransformers.length === 0) return resolved;
+
+    const processed = await applyUploadTransformers(
+      resolved,
+      [...this.uploadTransformers],
+      { kind },
+      mimeTypes
+    );
+    this.logger.debug('Upload preprocessed', {
+      kind,
+      size: processed.size,
+      width: processed.width,
+      height: processed.height,
+    });
+    return processed;
+  }
+
+  /**
+   * Queue images for upload
+   *
+   * Items upload in the background with limited concurrency; follow them with onUploadsChange.
+   */
+  uploadImages(images: Array<string | UploadFile>, endpoint?: string): UploadItem[] {
+    this.requireBrowserKey();
+    return this.uploadQueueService.enqueue('image', images, endpoint);
+  }
+
+  /**
+   * Queue files for upload
+   *
+   * Items upload in the background with limited concurrency; follow them with onUploadsChange.
+   */
+  uploadFiles(files: Array<string | UploadFile>, endpoint?: string): UploadItem[] {
+    this.requireBrowserKey();
+    return this.uploadQueueService.enqueue('file', files, endpoint);
+  }
+
+  /**
+   * Get items in the upload queue
+   */
+  getUploads(): UploadItem[] {
+    return this.uploadQueueService.getItems();
+  }
+
+  /**
+   * Cancel a queued upload
+   */
+  cancelUpload(id: string): void {
+    this.uploadQueueService.cancel(id);
+  }
+
+  /**
+   * Cancel all pending queued uploads
+   */
+  cancelAllUploads(): void {
+    this.uploadQueueService.cancelAll();
+  }
+
+  /**
+   * Upload a failed or cancelled queue item again
+   */
+  retryUpload(id: string): void {
+    this.requireBrowserKey();
+    this.uploadQueueService.retry(id);
+  }
+
+  /**
+   * Remove an item from the upload queue, cancelling it if still pending
+   */
+  removeUpload(id: string): void {
+    this.uploadQueueService.remove(id);
+  }
+
+  /**
+   * Remove completed items from the upload queue
+   */
+  clearCompletedUploads(): void {
+    this.uploadQueueService.clearCompleted();
+  }
+
+  /**
+   * Get unfinished chunked uploads (e.g. interrupted by an app restart)
+   */
+  getUploadSessions(): UploadSession[] {
+    return this.chunkedUploadService.getSessions();
+  }
+
+  /**
+   * Resume an unfinished chunked upload
+   */
+  async resumeUpload(
+    id: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal
+  ): Promise<UploadResponse> {
+    const browserKey = this.requireBrowserKey();
+    return await this.chunkedUploadService.resume(browserKey, id, onProgress, cancelToken);
+  }
+
+  /**
+   * Forget an unfinished chunked upload
+   */
+  async discardUpload(id: string): Promise<void> {
+    await this.chunkedUploadService.discard(id);
+  }
+
+  /**
+   * Get chat message history with pagination
+   */
+  async getMessages(page = 1, perPage = 20, signal?: AbortSignal): Promise<PaginatedMessages> {
+    const browserKey = this.requireBrowserKey();
+    const result = await this.apiService.getMessages(browserKey, page, perPage, signal);
+    this.recordMessages(result.messages, browserKey);
+    return result;
+  }
+
+  /**
+   * Find a message by id, e.g. the message a reply refers to
+   *
+   * Looks in the given messages (e.g. the loaded list) and the local cache
+   * first and fetches the message only when it is in neither.
+   * @returns The message, or null if it does not exist
+   */
+  async resolveMessage(
+    messageId: number,
+    messages: ChatMessage[] = [],
+    signal?: AbortSignal
+  ): Promise<ChatMessage | null> {
+    const loaded = findMessageById(messages, messageId);
+    if (loaded) return loaded;
+
+    const cached = findMessageById(await this.getCachedMessages(), messageId);
+    if (cached) return cached;
+
+    const browserKey = this.requireBrowserKey();
+    try {
+      return await this.apiService.getMessage(browserKey, messageId, signal);
+    } catch (e) {
+      if (e instanceof ChatApiException && e.statusCode === 404) return null;
+      throw e;
+    }
+  }
+
+  /**
+   * Load chat messages for history/regeneration with pagination
+   */
+  async loadMessages(page = 1, perPage = 20, signal?: AbortSignal): Promise<PaginatedMessages> {
+    this.assertInitialized();
+
+    // Check if browser key exists, otherwise try to load from storage
+    const browserKey = this.state.browserKey ?? (await this.storageService.getBrowserKey());
+
+    // If still no browser key, user is not registered
+    if (!browserKey) {
+      return createEmptyPaginatedMessages(perPage);
+    }
+
+    // Get stored user data
+    const userData = await this.storageService.getUserData();
+    if (!userData) {
+      return createEmptyPaginatedMessages(perPage);
+    }
+
+    try {
+      // Try to get messages directly with pagination
+      const result = await this.apiService.getMessages(browserKey, page, perPage, signal);
+      this.recordMessages(result.messages, browserKey);
+      return result;
+    } catch (e) {
+      // The caller is gone; an empty page would be mistaken for real data
+      if (e instanceof RequestCancelledException) throw e;
+      // If fails, return empty paginated response
+      return createEmptyPaginatedMessages(perPage);
+    }
+  }
+
+  /**
+   * Fetch messages missed since the newest known message and emit them through onMessage
+   *
+   * Runs automatically on every (re)connect; call it on foreground resume as well.
+   * @returns Missed messages (oldest first)
+   */
+  async syncMissedMessages(signal?: AbortSignal): Promise<ChatMessage[]> {
+    this.requireBrowserKey();
+
+    const missed = await this.syncService.sync(signal);
+    missed.forEach((message) => this.notifyMessage(message));
+    return missed;
+  }
+
+  /**
+   * Get locally cached messages (newest first)
+   *
+   * Available before initialize() completes, e.g. on an offline launch.
+   */
+  async getCachedMessages(): Promise<ChatMessage[]> {
+    if (!this.isMessageCacheEnabled) return [];
+
+    const browserKey = this.state.browserKey ?? (await this.storageService.getBrowserKey());
+    if (!browserKey) return [];
+
+    return await this.messageCacheService.getMessages(browserKey);
+  }
+
+  /**
+   * Send typing indicator
+   */
+  sendTyping(isTyping: boolean): void {
+    if (this.state.browserKey) {
+      this.socketService.sendTyping(this.state.browserKey, isTyping);
+    }
+  }
+
+  /**
+   * Subscribe to incoming messages and updates of locally sent messages
+   * @returns Unsubscribe function
+   */
+  onMessage(callback: (message: ChatMessage) => void): () => void {
+    this.messageCallbacks.add(callback);
+    return () => {
+      this.messageCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to read receipts (from agents, and for messages this user marked as read)
+   * @returns Unsubscribe function
+   */
+  onReadReceipt(callback: (event: ReadReceiptEvent) => void): () => void {
+    this.readReceiptCallbacks.add(callback);
+    return () => {
+      this.readReceiptCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to deleted messages (deleted here, on another device or by an agent)
+   * @returns Unsubscribe function
+   */
+  onMessageDeleted(callback: (event: MessageDeletedEvent) => void): () => void {
+    this.messageDeletedCallbacks.add(callback);
+    return () => {
+      this.messageDeletedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to reactions added or removed (by this user or an agent)
+   * @returns Unsubscribe function
+   */
+  onMessageReaction(callback: (event: MessageReactionEvent) => void): () => void {
+    this.messageReactionCallbacks.add(callback);
+    return () => {
+      this.messageReactionCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to unread count changes
+   * @returns Unsubscribe function
+   */
+  onUnreadCountChange(callback: (count: number) => void): () => void {
+    return this.unreadService.onChange(callback);
+  }
+
+  /**
+   * Subscribe to connection changes
+   * @returns Unsubscribe function
+   */
+  onConnectionChange(callback: (connected: boolean) => void): () => void {
+    return this.socketService.onConnectionChange(callback);
+  }
+
+  /**
+   * Subscribe to connection state changes
+   * @returns Unsubscribe function
+   */
+  onConnectionStateChange(callback: (state: ConnectionState) => void): () => void {
+    return this.socketService.onConnectionStateChange(callback);
+  }
+
+  /**
+   * Subscribe to socket authentication errors (e.g. a revoked key)
+   * @returns Unsubscribe function
+   */
+  onAuthError(callback: (event: AuthErrorEvent) => void): () => void {
+    return this.socketService.onAuthError(callback);
+  }
+
+  /**
+   * Subscribe to participants (e.g. agents) joining the conversation
+   * @returns Unsubscribe function
+   */
+  onParticipantJoined(callback: (event: ParticipantEvent) => void): () => void {
+    return this.socketService.onParticipantJoined(callback);
+  }
+
+  /**
+   * Subscribe to participants leaving the conversation
+   * @returns Unsubscribe function
+   */
+  onParticipantLeft(callback: (event: ParticipantEvent) => void): () => void {
+    return this.socketService.onParticipantLeft(callback);
+  }
+
+  /**
+   * Subscribe to typing indicators
+   * @returns Unsubscribe function
+   */
+  onTyping(callback: (isTyping: boolean) => void): () => void {
+    return this.socketService.onTyping(callback);
+  }
+
+  /**
+   * Subscribe to outbox changes
+   * @returns Unsubscribe function
+   */
+  onOutboxChange(callback: (items: OutboxItem[]) => void): () => void {
+    return this.outboxService.onChange(callback);
+  }
+
+  /**
+   * Subscribe to upload queue changes (including progress)
+   * @returns Unsubscribe function
+   */
+  onUploadsChange(callback: (items: UploadItem[]) => void): () => void {
+    return this.uploadQueueService.onChange(callback);
+  }
+
+  /**
+   * Clear all stored data and reset
+   */
+  async reset(): Promise<void> {
+    const browserKey = this.state.browserKey ?? (await this.storageService.getBrowserKey());
+    this.outboxService.clear();
+    this.chunkedUploadService.clear();
+    this.uploadQueueService.clear();
+    this.syncService.reset();
+    this.lastReadMessageId = 0;
+    this.unreadService.clear();
+    this.socketService.disconnect();
+
+    // A write queued before clearing must not restore the old state afterwards
+    await this.unreadService.flush();
+    if (browserKey) {
+      await this.messageCacheService.clear(browserKey);
+    }
+    await this.storageService.clearAll();
+
+    this.setState({
+      isRegistered: false,
+      browserKey: null,
+      chatId: null,
+    });
+  }
+
+  /**
+   * Disconnect from chat
+   */
+  disconnect(): void {
+    this.socketService.disconnect();
+  }
+
+  /**
+   * Reconnect to chat
+   */
+  reconnect(): void {
+    if (this.state.remoteConfig) {
+      this.connectSocket(this.state.remoteConfig, this.state.browserKey);
+    }
+  }
+
+  /**
+   * Get stored user data
+   */
+  async getUserData(): Promise<Record<string, unknown> | null> {
+    return await this.storageService.getUserData();
+  }
+
+  /**
+   * Check if user is registered
+   */
+  async checkIsRegistered(): Promise<boolean> {
+    return await this.storageService.isRegistered();
+  }
+
+  /**
+   * Create a cancel token for uploads
+   */
+  createCancelToken(): CancelToken {
+    return new CancelToken();
+  }
+
+  /**
+   * Dispose all resources
+   *
+   * The client can be initialized again afterwards.
+   */
+  dispose(): void {
+    this.generation++;
+    this.unbindServiceEvents();
+    this.lifecycleService?.stop();
+    this.apiService.dispose();
+    this.socketService.dispose();
+    this.outboxService.dispose();
+    this.chunkedUploadService.dispose();
+    this.uploadQueueService.dispose();
+    this.unreadService.dispose();
+    this.syncService.reset();
+    this.setState(createInitialState(this.socketService.connectionState));
+  }
+}
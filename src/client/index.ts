@@ -0,0 +1 @@
+export { FcrmChatClient, type ChatStateListener } from './FcrmChatClient';
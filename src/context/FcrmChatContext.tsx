@@ -2,16 +2,13 @@ import {
   createContext,
   useContext,
   useEffect,
-  useRef,
   useState,
-  useCallback,
   useMemo,
+  useRef,
   type ReactNode,
 } from 'react';
 import {
   ChatConfig,
-  ChatConfigWithDefaults,
-  applyConfigDefaults,
   ChatState,
   ChatMessage,
   PaginatedMessages,
@@ -19,50 +16,116 @@ import {
   EditMessageResponse,
   UserData,
   SendProgressCallback,
-  createEmptyPaginatedMessages,
-  parseChatMessage,
+  UploadFile,
+  UploadResponse,
+  UploadSession,
+  UploadItem,
+  OutboxItem,
+  ConnectionState,
+  AuthErrorEvent,
+  ParticipantEvent,
+  ReadReceiptEvent,
+  MessageDeletedEvent,
+  MessageReactionEvent,
 } from '../types';
-import { ChatApiService, CancelToken } from '../services/api.service';
-import { ChatSocketService } from '../services/socket.service';
-import { ChatStorageService } from '../services/storage.service';
-import { ChatException } from '../utils/errors';
+import { CancelToken } from '../services/api.service';
+import { FcrmChatClient } from '../client/FcrmChatClient';
 
 /**
  * FCRM Chat Context Value
  */
 export interface FcrmChatContextValue extends ChatState {
   // Initialization
-  initialize: () => Promise<void>;
+  initialize: (signal?: AbortSignal) => Promise<void>;
 
   // Registration
-  register: (userData: UserData, endpoint?: string) => Promise<void>;
-  updateBrowser: (userData: UserData) => Promise<ChatMessage[]>;
-  updateUserData: (data: Partial<UserData>) => Promise<Record<string, unknown>>;
-  updateName: (name: string) => Promise<Record<string, unknown>>;
-  updatePhone: (phone: string) => Promise<Record<string, unknown>>;
-  updateEmail: (email: string) => Promise<Record<string, unknown>>;
+  register: (userData: UserData, endpoint?: string, signal?: AbortSignal) => Promise<void>;
+  updateBrowser: (userData: UserData, signal?: AbortSignal) => Promise<ChatMessage[]>;
+  updateUserData: (
+    data: Partial<UserData>,
+    signal?: AbortSignal
+  ) => Promise<Record<string, unknown>>;
+  updateName: (name: string, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+  updatePhone: (phone: string, signal?: AbortSignal) => Promise<Record<string, unknown>>;
+  updateEmail: (email: string, signal?: AbortSignal) => Promise<Record<string, unknown>>;
 
   // Messaging
   sendMessage: (
     message: string,
     endpoint?: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    signal?: AbortSignal,
+    replyToId?: number
   ) => Promise<SendMessageResponse>;
-  editMessage: (messageId: number, content: string) => Promise<EditMessageResponse>;
+  editMessage: (
+    messageId: number,
+    content: string,
+    signal?: AbortSignal
+  ) => Promise<EditMessageResponse>;
+  deleteMessage: (messageId: number, signal?: AbortSignal) => Promise<void>;
+  addReaction: (messageId: number, emoji: string, signal?: AbortSignal) => Promise<void>;
+  removeReaction: (messageId: number, emoji: string, signal?: AbortSignal) => Promise<void>;
+  markAsRead: (upToMessageId: number, signal?: AbortSignal) => Promise<void>;
+  markAllAsRead: (signal?: AbortSignal) => Promise<void>;
+  getUnreadCount: () => number;
   sendImage: (
-    imageUri: string,
+    image: string | UploadFile,
     endpoint?: string,
     onProgress?: SendProgressCallback,
-    cancelToken?: CancelToken
-  ) => Promise<Record<string, unknown>>;
+    cancelToken?: CancelToken | AbortSignal
+  ) => Promise<UploadResponse>;
   sendFile: (
-    fileUri: string,
+    file: string | UploadFile,
     endpoint?: string,
     onProgress?: SendProgressCallback,
-    cancelToken?: CancelToken
-  ) => Promise<Record<string, unknown>>;
-  getMessages: (page?: number, perPage?: number) => Promise<PaginatedMessages>;
-  loadMessages: (page?: number, perPage?: number) => Promise<PaginatedMessages>;
+    cancelToken?: CancelToken | AbortSignal
+  ) => Promise<UploadResponse>;
+  getUploadSessions: () => UploadSession[];
+  resumeUpload: (
+    id: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal
+  ) => Promise<UploadResponse>;
+  discardUpload: (id: string) => Promise<void>;
+  getMessages: (
+    page?: number,
+    perPage?: number,
+    signal?: AbortSignal
+  ) => Promise<PaginatedMessages>;
+  loadMessages: (
+    page?: number,
+    perPage?: number,
+    signal?: AbortSignal
+  ) => Promise<PaginatedMessages>;
+  getCachedMessages: () => Promise<ChatMessage[]>;
+  resolveMessage: (
+    messageId: number,
+    messages?: ChatMessage[],
+    signal?: AbortSignal
+  ) => Promise<ChatMessage | null>;
+  syncMissedMessages: (signal?: AbortSignal) => Promise<ChatMessage[]>;
+
+  // Outbox
+  queueMessage: (
+    message: string,
+    endpoint?: string,
+    metadata?: Record<string, unknown>,
+    replyToId?: number
+  ) => Promise<OutboxItem>;
+  getOutboxItems: () => OutboxItem[];
+  retryOutboxItem: (id: string) => Promise<void>;
+  removeOutboxItem: (id: string) => Promise<void>;
+  flushOutbox: () => Promise<void>;
+
+  // Upload queue
+  uploadImages: (images: Array<string | UploadFile>, endpoint?: string) => UploadItem[];
+  uploadFiles: (files: Array<string | UploadFile>, endpoint?: string) => UploadItem[];
+  getUploads: () => UploadItem[];
+  cancelUpload: (id: string) => void;
+  cancelAllUploads: () => void;
+  retryUpload: (id: string) => void;
+  removeUpload: (id: string) => void;
+  clearCompletedUploads: () => void;
 
   // Typing
   sendTyping: (isTyping: boolean) => void;
@@ -75,7 +138,17 @@ export interface FcrmChatContextValue extends ChatState {
   // Subscriptions (return unsubscribe functions)
   onMessage: (callback: (message: ChatMessage) => void) => () => void;
   onConnectionChange: (callback: (connected: boolean) => void) => () => void;
+  onConnectionStateChange: (callback: (state: ConnectionState) => void) => () => void;
+  onAuthError: (callback: (event: AuthErrorEvent) => void) => () => void;
+  onParticipantJoined: (callback: (event: ParticipantEvent) => void) => () => void;
+  onParticipantLeft: (callback: (event: ParticipantEvent) => void) => () => void;
   onTyping: (callback: (isTyping: boolean) => void) => () => void;
+  onOutboxChange: (callback: (items: OutboxItem[]) => void) => () => void;
+  onReadReceipt: (callback: (event: ReadReceiptEvent) => void) => () => void;
+  onMessageDeleted: (callback: (event: MessageDeletedEvent) => void) => () => void;
+  onMessageReaction: (callback: (event: MessageReactionEvent) => void) => () => void;
+  onUnreadCountChange: (callback: (count: number) => void) => () => void;
+  onUploadsChange: (callback: (items: UploadItem[]) => void) => () => void;
 
   // Helpers
   isActive: boolean;
@@ -84,587 +157,202 @@ export interface FcrmChatContextValue extends ChatState {
 
   // Create cancel token for uploads
   createCancelToken: () => CancelToken;
+
+  // Underlying headless client
+  client: FcrmChatClient;
 }
 
 const FcrmChatContext = createContext<FcrmChatContextValue | undefined>(undefined);
 
+/**
+ * Config values that require a new client when they change
+ */
+function getClientIdentity(config: ChatConfig): unknown[] {
+  return [
+    config.baseUrl,
+    config.companyToken,
+    config.appKey,
+    config.appSecret,
+    config.signer,
+    config.socketUrl,
+    config.storage,
+  ];
+}
+
 /**
  * Props for FcrmChatProvider
  */
 export interface FcrmChatProviderProps {
+  /**
+   * Chat configuration
+   *
+   * A new client is created only when the connection, credentials, signer or
+   * storage change; other options are read when the client is created.
+   */
   config: ChatConfig;
   children: ReactNode;
   autoInitialize?: boolean;
+  /** Existing client to bind instead of creating one from config (not disposed on unmount) */
+  client?: FcrmChatClient;
 }
 
 /**
  * FCRM Chat Provider component
+ *
+ * Thin React binding over {@link FcrmChatClient}.
  */
 export function FcrmChatProvider({
   config,
   children,
   autoInitialize = false,
+  client: externalClient,
 }: FcrmChatProviderProps): JSX.Element {
-  // Apply config defaults
-  const configWithDefaults = useMemo<ChatConfigWithDefaults>(
-    () => applyConfigDefaults(config),
-    [config]
-  );
-
-  // Services refs (maintain across re-renders)
-  const apiServiceRef = useRef<ChatApiService | null>(null);
-  const socketServiceRef = useRef<ChatSocketService | null>(null);
-  const storageServiceRef = useRef<ChatStorageService | null>(null);
-
-  // Log helper that respects enableLogging setting
-  const log = useCallback(
-    (message: string, ...args: unknown[]) => {
-      if (configWithDefaults.enableLogging) {
-        console.log(`[FCRM Chat] ${message}`, ...args);
-      }
-    },
-    [configWithDefaults.enableLogging]
-  );
+  // Own client (kept across re-renders, so an inline config object does not
+  // recreate it; recreated only when identity-relevant config values change)
+  const ownClientRef = useRef<{ client: FcrmChatClient; identity: unknown[] } | null>(null);
+  const identity = getClientIdentity(config);
+  if (
+    !externalClient &&
+    (!ownClientRef.current ||
+      ownClientRef.current.identity.some((value, i) => value !== identity[i]))
+  ) {
+    ownClientRef.current = { client: new FcrmChatClient(config), identity };
+  }
+  const client = externalClient ?? (ownClientRef.current as { client: FcrmChatClient }).client;
 
-  // State
-  const [state, setState] = useState<ChatState>({
-    isInitialized: false,
-    isConnected: false,
-    isRegistered: false,
-    remoteConfig: null,
-    browserKey: null,
-    chatId: null,
-    error: null,
-  });
+  // State mirrored from the client
+  const [state, setState] = useState<ChatState>(() => client.getState());
 
-  // Initialize services on mount
   useEffect(() => {
-    apiServiceRef.current = new ChatApiService(configWithDefaults);
-    socketServiceRef.current = new ChatSocketService(configWithDefaults.enableLogging);
-    storageServiceRef.current = new ChatStorageService(configWithDefaults.appKey);
-
-    // Setup socket event listeners
-    const socketService = socketServiceRef.current;
-    const storageService = storageServiceRef.current;
+    setState(client.getState());
+    const unsubscribe = client.subscribe(setState);
 
-    const unsubConnection = socketService.onConnectionChange((connected) => {
-      setState((prev) => ({ ...prev, isConnected: connected }));
-    });
-
-    const unsubBrowserKey = socketService.onBrowserKeyUpdate(async (key) => {
-      setState((prev) => ({ ...prev, browserKey: key }));
-      await storageService.saveBrowserKey(key);
-    });
-
-    // Auto-initialize if requested
+    // Auto-initialize if requested (errors are exposed through state.error)
+    const controller = new AbortController();
     if (autoInitialize) {
-      initialize();
+      client.initialize(controller.signal).catch(() => {});
     }
 
     // Cleanup
     return () => {
-      unsubConnection();
-      unsubBrowserKey();
-      apiServiceRef.current?.dispose();
-      socketServiceRef.current?.dispose();
-    };
-  }, [configWithDefaults, autoInitialize]);
-
-  /**
-   * Initialize the chat SDK
-   */
-  const initialize = useCallback(async () => {
-    if (state.isInitialized) return;
-
-    const apiService = apiServiceRef.current;
-    const socketService = socketServiceRef.current;
-    const storageService = storageServiceRef.current;
-
-    if (!apiService || !socketService || !storageService) {
-      throw new ChatException('Services not initialized');
-    }
-
-    try {
-      // Get remote configuration
-      const remoteConfig = await apiService.getConfig();
-
-      if (!remoteConfig.isActive) {
-        throw new ChatException('Chat app is not active');
-      }
-
-      // Get stored browser key
-      const browserKey = await storageService.getBrowserKey();
-      const isRegistered = await storageService.isRegistered();
-
-      // Connect to socket
-      socketService.connect(
-        config.socketUrl ?? remoteConfig.socketUrl,
-        remoteConfig.socketApiKey,
-        browserKey ?? undefined
-      );
-
-      setState((prev) => ({
-        ...prev,
-        isInitialized: true,
-        isRegistered,
-        remoteConfig,
-        browserKey,
-        error: null,
-      }));
-    } catch (e) {
-      const error = e instanceof Error ? e : new Error(String(e));
-      setState((prev) => ({ ...prev, error }));
-      throw e;
-    }
-  }, [state.isInitialized, config.socketUrl]);
-
-  /**
-   * Register a new browser/device
-   */
-  const register = useCallback(
-    async (userData: UserData, endpoint?: string) => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      const socketService = socketServiceRef.current;
-      const storageService = storageServiceRef.current;
-
-      if (!apiService || !socketService || !storageService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      // Validate required fields
-      const requiredFields = state.remoteConfig?.requiredFields ?? {};
-      log('Required fields:', JSON.stringify(requiredFields));
-      log('User data keys:', Object.keys(userData));
-
-      for (const [key, label] of Object.entries(requiredFields)) {
-        const value = userData[key];
-        log(`Checking field '${key}' (label: '${label}'): value = '${value}'`);
-        if (value == null || String(value).trim() === '') {
-          throw new ChatException(`Missing required field: ${label} (key: ${key})`);
-        }
-      }
-
-      // Register browser
-      const response = await apiService.registerBrowser(userData, endpoint);
-
-      // Save to storage
-      await storageService.saveBrowserKey(response.browserKey);
-      const userDataWithMeta = {
-        ...userData,
-        registered: true,
-        registrationDate: new Date().toISOString(),
-      };
-      await storageService.saveUserData(userDataWithMeta);
-
-      // Update socket connection
-      socketService.updateBrowserKey(response.browserKey);
-
-      setState((prev) => ({
-        ...prev,
-        isRegistered: true,
-        browserKey: response.browserKey,
-        chatId: response.chatId ?? null,
-      }));
-    },
-    [state.isInitialized, state.remoteConfig]
-  );
-
-  /**
-   * Update browser/device information
-   */
-  const updateBrowser = useCallback(
-    async (userData: UserData): Promise<ChatMessage[]> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      const storageService = storageServiceRef.current;
-
-      if (!apiService || !storageService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      const response = await apiService.updateBrowser(state.browserKey, userData);
-
-      // Parse last messages
-      const messages: ChatMessage[] = [];
-      if (response.lastMessages) {
-        for (const m of response.lastMessages) {
-          if (typeof m === 'object' && m !== null) {
-            messages.push(parseChatMessage(m as Record<string, unknown>));
-          }
-        }
-      }
-
-      // Update storage
-      await storageService.saveUserData(userData);
-
-      setState((prev) => ({
-        ...prev,
-        chatId: response.chatId ?? prev.chatId,
-      }));
-
-      return messages;
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Update specific user data fields (partial update)
-   */
-  const updateUserData = useCallback(
-    async (data: Partial<UserData>): Promise<Record<string, unknown>> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      const storageService = storageServiceRef.current;
-
-      if (!apiService || !storageService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      const response = await apiService.updateUserData(state.browserKey, data);
-
-      // Update stored user data
-      await storageService.saveUserData(response.userData);
-
-      return response.userData;
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Update only the client name
-   */
-  const updateName = useCallback(
-    (name: string) => updateUserData({ name }),
-    [updateUserData]
-  );
-
-  /**
-   * Update only the client phone
-   */
-  const updatePhone = useCallback(
-    (phone: string) => updateUserData({ phone }),
-    [updateUserData]
-  );
-
-  /**
-   * Update only the client email
-   */
-  const updateEmail = useCallback(
-    (email: string) => updateUserData({ email }),
-    [updateUserData]
-  );
-
-  /**
-   * Send a text message
-   */
-  const sendMessage = useCallback(
-    async (
-      message: string,
-      endpoint?: string,
-      metadata?: Record<string, unknown>
-    ): Promise<SendMessageResponse> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      if (!apiService) {
-        throw new ChatException('Services not initialized');
+      controller.abort();
+      unsubscribe();
+      if (client !== externalClient) {
+        client.dispose();
       }
+    };
+  }, [client, externalClient, autoInitialize]);
 
-      return await apiService.sendMessage(state.browserKey, message, endpoint, metadata);
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Edit a message
-   */
-  const editMessage = useCallback(
-    async (messageId: number, content: string): Promise<EditMessageResponse> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      if (!apiService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      return await apiService.editMessage(state.browserKey, messageId, content);
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Upload and send an image
-   */
-  const sendImage = useCallback(
-    async (
-      imageUri: string,
-      endpoint?: string,
-      onProgress?: SendProgressCallback,
-      cancelToken?: CancelToken
-    ): Promise<Record<string, unknown>> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      if (!apiService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      return await apiService.uploadImage(
-        state.browserKey,
-        imageUri,
-        endpoint,
-        onProgress,
-        cancelToken
-      );
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Upload and send a file
-   */
-  const sendFile = useCallback(
-    async (
-      fileUri: string,
-      endpoint?: string,
-      onProgress?: SendProgressCallback,
-      cancelToken?: CancelToken
-    ): Promise<Record<string, unknown>> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      if (!apiService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      return await apiService.uploadFile(
-        state.browserKey,
-        fileUri,
-        endpoint,
-        onProgress,
-        cancelToken
-      );
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Get chat message history with pagination
-   */
-  const getMessages = useCallback(
-    async (page = 1, perPage = 20): Promise<PaginatedMessages> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-      if (!state.browserKey) {
-        throw new ChatException('Not registered. Call register() first.');
-      }
-
-      const apiService = apiServiceRef.current;
-      if (!apiService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      return await apiService.getMessages(state.browserKey, page, perPage);
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Load chat messages for history/regeneration with pagination
-   */
-  const loadMessages = useCallback(
-    async (page = 1, perPage = 20): Promise<PaginatedMessages> => {
-      if (!state.isInitialized) {
-        throw new ChatException('Chat not initialized. Call initialize() first.');
-      }
-
-      const storageService = storageServiceRef.current;
-      const apiService = apiServiceRef.current;
-
-      if (!storageService || !apiService) {
-        throw new ChatException('Services not initialized');
-      }
-
-      // Check if browser key exists
-      let browserKey = state.browserKey;
-      if (!browserKey) {
-        // Try to load from storage
-        browserKey = await storageService.getBrowserKey();
-      }
-
-      // If still no browser key, user is not registered
-      if (!browserKey) {
-        return createEmptyPaginatedMessages(perPage);
-      }
-
-      // Get stored user data
-      const userData = await storageService.getUserData();
-      if (!userData) {
-        return createEmptyPaginatedMessages(perPage);
-      }
-
-      try {
-        // Try to get messages directly with pagination
-        return await apiService.getMessages(browserKey, page, perPage);
-      } catch {
-        // If fails, return empty paginated response
-        return createEmptyPaginatedMessages(perPage);
-      }
-    },
-    [state.isInitialized, state.browserKey]
-  );
-
-  /**
-   * Send typing indicator
-   */
-  const sendTyping = useCallback(
-    (isTyping: boolean) => {
-      if (state.browserKey) {
-        socketServiceRef.current?.sendTyping(state.browserKey, isTyping);
-      }
-    },
-    [state.browserKey]
-  );
-
-  /**
-   * Subscribe to incoming messages
-   */
-  const onMessage = useCallback((callback: (message: ChatMessage) => void): (() => void) => {
-    const socketService = socketServiceRef.current;
-    if (!socketService) {
-      return () => {};
-    }
-    return socketService.onMessage(callback);
-  }, []);
-
-  /**
-   * Subscribe to connection changes
-   */
-  const onConnectionChange = useCallback(
-    (callback: (connected: boolean) => void): (() => void) => {
-      const socketService = socketServiceRef.current;
-      if (!socketService) {
-        return () => {};
-      }
-      return socketService.onConnectionChange(callback);
-    },
-    []
+  // Methods bound to the current client
+  const methods = useMemo(
+    () => ({
+      initialize: (signal?: AbortSignal) => client.initialize(signal),
+      register: (userData: UserData, endpoint?: string, signal?: AbortSignal) =>
+        client.register(userData, endpoint, signal),
+      updateBrowser: (userData: UserData, signal?: AbortSignal) =>
+        client.updateBrowser(userData, signal),
+      updateUserData: (data: Partial<UserData>, signal?: AbortSignal) =>
+        client.updateUserData(data, signal),
+      updateName: (name: string, signal?: AbortSignal) => client.updateName(name, signal),
+      updatePhone: (phone: string, signal?: AbortSignal) => client.updatePhone(phone, signal),
+      updateEmail: (email: string, signal?: AbortSignal) => client.updateEmail(email, signal),
+      sendMessage: (
+        message: string,
+        endpoint?: string,
+        metadata?: Record<string, unknown>,
+        signal?: AbortSignal,
+        replyToId?: number
+      ) => client.sendMessage(message, endpoint, metadata, signal, replyToId),
+      editMessage: (messageId: number, content: string, signal?: AbortSignal) =>
+        client.editMessage(messageId, content, signal),
+      deleteMessage: (messageId: number, signal?: AbortSignal) =>
+        client.deleteMessage(messageId, signal),
+      addReaction: (messageId: number, emoji: string, signal?: AbortSignal) =>
+        client.addReaction(messageId, emoji, signal),
+      removeReaction: (messageId: number, emoji: string, signal?: AbortSignal) =>
+        client.removeReaction(messageId, emoji, signal),
+      markAsRead: (upToMessageId: number, signal?: AbortSignal) =>
+        client.markAsRead(upToMessageId, signal),
+      markAllAsRead: (signal?: AbortSignal) => client.markAllAsRead(signal),
+      getUnreadCount: () => client.getUnreadCount(),
+      sendImage: (
+        image: string | UploadFile,
+        endpoint?: string,
+        onProgress?: SendProgressCallback,
+        cancelToken?: CancelToken | AbortSignal
+      ) => client.sendImage(image, endpoint, onProgress, cancelToken),
+      sendFile: (
+        file: string | UploadFile,
+        endpoint?: string,
+        onProgress?: SendProgressCallback,
+        cancelToken?: CancelToken | AbortSignal
+      ) => client.sendFile(file, endpoint, onProgress, cancelToken),
+      getUploadSessions: () => client.getUploadSessions(),
+      resumeUpload: (
+        id: string,
+        onProgress?: SendProgressCallback,
+        cancelToken?: CancelToken | AbortSignal
+      ) => client.resumeUpload(id, onProgress, cancelToken),
+      discardUpload: (id: string) => client.discardUpload(id),
+      getMessages: (page?: number, perPage?: number, signal?: AbortSignal) =>
+        client.getMessages(page, perPage, signal),
+      loadMessages: (page?: number, perPage?: number, signal?: AbortSignal) =>
+        client.loadMessages(page, perPage, signal),
+      getCachedMessages: () => client.getCachedMessages(),
+      resolveMessage: (messageId: number, messages?: ChatMessage[], signal?: AbortSignal) =>
+        client.resolveMessage(messageId, messages, signal),
+      syncMissedMessages: (signal?: AbortSignal) => client.syncMissedMessages(signal),
+      queueMessage: (
+        message: string,
+        endpoint?: string,
+        metadata?: Record<string, unknown>,
+        replyToId?: number
+      ) => client.queueMessage(message, endpoint, metadata, replyToId),
+      getOutboxItems: () => client.getOutboxItems(),
+      retryOutboxItem: (id: string) => client.retryOutboxItem(id),
+      removeOutboxItem: (id: string) => client.removeOutboxItem(id),
+      flushOutbox: () => client.flushOutbox(),
+      uploadImages: (images: Array<string | UploadFile>, endpoint?: string) =>
+        client.uploadImages(images, endpoint),
+      uploadFiles: (files: Array<string | UploadFile>, endpoint?: string) =>
+        client.uploadFiles(files, endpoint),
+      getUploads: () => client.getUploads(),
+      cancelUpload: (id: string) => client.cancelUpload(id),
+      cancelAllUploads: () => client.cancelAllUploads(),
+      retryUpload: (id: string) => client.retryUpload(id),
+      removeUpload: (id: string) => client.removeUpload(id),
+      clearCompletedUploads: () => client.clearCompletedUploads(),
+      sendTyping: (isTyping: boolean) => client.sendTyping(isTyping),
+      onMessage: (callback: (message: ChatMessage) => void) => client.onMessage(callback),
+      onConnectionChange: (callback: (connected: boolean) => void) =>
+        client.onConnectionChange(callback),
+      onConnectionStateChange: (callback: (state: ConnectionState) => void) =>
+        client.onConnectionStateChange(callback),
+      onAuthError: (callback: (event: AuthErrorEvent) => void) => client.onAuthError(callback),
+      onParticipantJoined: (callback: (event: ParticipantEvent) => void) =>
+        client.onParticipantJoined(callback),
+      onParticipantLeft: (callback: (event: ParticipantEvent) => void) =>
+        client.onParticipantLeft(callback),
+      onTyping: (callback: (isTyping: boolean) => void) => client.onTyping(callback),
+      onOutboxChange: (callback: (items: OutboxItem[]) => void) => client.onOutboxChange(callback),
+      onReadReceipt: (callback: (event: ReadReceiptEvent) => void) => client.onReadReceipt(callback),
+      onMessageDeleted: (callback: (event: MessageDeletedEvent) => void) =>
+        client.onMessageDeleted(callback),
+      onMessageReaction: (callback: (event: MessageReactionEvent) => void) =>
+        client.onMessageReaction(callback),
+      onUnreadCountChange: (callback: (count: number) => void) =>
+        client.onUnreadCountChange(callback),
+      onUploadsChange: (callback: (items: UploadItem[]) => void) => client.onUploadsChange(callback),
+      disconnect: () => client.disconnect(),
+      reconnect: () => client.reconnect(),
+      reset: () => client.reset(),
+      getUserData: () => client.getUserData(),
+      checkIsRegistered: () => client.checkIsRegistered(),
+      createCancelToken: () => client.createCancelToken(),
+    }),
+    [client]
   );
 
-  /**
-   * Subscribe to typing indicators
-   */
-  const onTyping = useCallback((callback: (isTyping: boolean) => void): (() => void) => {
-    const socketService = socketServiceRef.current;
-    if (!socketService) {
-      return () => {};
-    }
-    return socketService.onTyping(callback);
-  }, []);
-
-  /**
-   * Clear all stored data and reset
-   */
-  const reset = useCallback(async () => {
-    const storageService = storageServiceRef.current;
-    const socketService = socketServiceRef.current;
-
-    if (storageService) {
-      await storageService.clearAll();
-    }
-    if (socketService) {
-      socketService.disconnect();
-    }
-
-    setState((prev) => ({
-      ...prev,
-      isRegistered: false,
-      browserKey: null,
-      chatId: null,
-    }));
-  }, []);
-
-  /**
-   * Disconnect from chat
-   */
-  const disconnect = useCallback(() => {
-    socketServiceRef.current?.disconnect();
-  }, []);
-
-  /**
-   * Reconnect to chat
-   */
-  const reconnect = useCallback(() => {
-    const socketService = socketServiceRef.current;
-    const remoteConfig = state.remoteConfig;
-
-    if (socketService && remoteConfig) {
-      socketService.connect(
-        config.socketUrl ?? remoteConfig.socketUrl,
-        remoteConfig.socketApiKey,
-        state.browserKey ?? undefined
-      );
-    }
-  }, [config.socketUrl, state.remoteConfig, state.browserKey]);
-
-  /**
-   * Get stored user data
-   */
-  const getUserData = useCallback(async (): Promise<Record<string, unknown> | null> => {
-    return await storageServiceRef.current?.getUserData() ?? null;
-  }, []);
-
-  /**
-   * Check if user is registered
-   */
-  const checkIsRegistered = useCallback(async (): Promise<boolean> => {
-    return await storageServiceRef.current?.isRegistered() ?? false;
-  }, []);
-
-  /**
-   * Create a cancel token for uploads
-   */
-  const createCancelToken = useCallback((): CancelToken => {
-    return new CancelToken();
-  }, []);
-
   // Context value
   const contextValue = useMemo<FcrmChatContextValue>(
     () => ({
@@ -673,56 +361,10 @@ export function FcrmChatProvider({
       isActive: state.remoteConfig?.isActive ?? false,
 
       // Methods
-      initialize,
-      register,
-      updateBrowser,
-      updateUserData,
-      updateName,
-      updatePhone,
-      updateEmail,
-      sendMessage,
-      editMessage,
-      sendImage,
-      sendFile,
-      getMessages,
-      loadMessages,
-      sendTyping,
-      onMessage,
-      onConnectionChange,
-      onTyping,
-      disconnect,
-      reconnect,
-      reset,
-      getUserData,
-      checkIsRegistered,
-      createCancelToken,
+      ...methods,
+      client,
     }),
-    [
-      state,
-      initialize,
-      register,
-      updateBrowser,
-      updateUserData,
-      updateName,
-      updatePhone,
-      updateEmail,
-      sendMessage,
-      editMessage,
-      sendImage,
-      sendFile,
-      getMessages,
-      loadMessages,
-      sendTyping,
-      onMessage,
-      onConnectionChange,
-      onTyping,
-      disconnect,
-      reconnect,
-      reset,
-      getUserData,
-      checkIsRegistered,
-      createCancelToken,
-    ]
+    [state, methods, client]
   );
 
   return (
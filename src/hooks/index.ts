@@ -16,3 +16,25 @@ export {
   type UseChatTypingOptions,
   type UseChatTypingReturn,
 } from './useChatTyping';
+export {
+  useChatOutbox,
+  default as useChatOutboxDefault,
+  type UseChatOutboxReturn,
+} from './useChatOutbox';
+export {
+  useChatUploads,
+  default as useChatUploadsDefault,
+  type UseChatUploadsReturn,
+} from './useChatUploads';
+export {
+  useUnreadCount,
+  default as useUnreadCountDefault,
+  type UseUnreadCountReturn,
+} from './useUnreadCount';
+export {
+  useChatParticipants,
+  default as useChatParticipantsDefault,
+  type UseChatParticipantsOptions,
+  type UseChatParticipantsReturn,
+} from './useChatParticipants';
+export { useAbortSignal, default as useAbortSignalDefault } from './useAbortSignal';
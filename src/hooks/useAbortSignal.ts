@@ -0,0 +1,38 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+/**
+ * Hook providing an AbortSignal that is aborted when the component unmounts
+ *
+ * Pass the signal to SDK methods so in-flight requests do not outlive the screen.
+ *
+ * @example
+ * ```tsx
+ * function ProfileForm() {
+ *   const { updateName } = useFcrmChat();
+ *   const getSignal = useAbortSignal();
+ *
+ *   const save = (name: string) => updateName(name, getSignal());
+ * }
+ * ```
+ */
+export function useAbortSignal(): () => AbortSignal {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
+
+export default useAbortSignal;
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useFcrmChatContext } from '../context/FcrmChatContext';
+import { AuthErrorEvent, ConnectionState, ConnectionStatus } from '../types';
 
 /**
  * Return value from useChatConnection hook
@@ -7,12 +8,20 @@ import { useFcrmChatContext } from '../context/FcrmChatContext';
 export interface UseChatConnectionReturn {
   /** Whether socket is connected */
   isConnected: boolean;
+  /** Detailed connection state (status, reconnection attempt, last error) */
+  connectionState: ConnectionState;
+  /** Shorthand for connectionState.status */
+  status: ConnectionStatus;
   /** Whether SDK is initialized */
   isInitialized: boolean;
   /** Whether user is registered */
   isRegistered: boolean;
   /** Current error (if any) */
   error: Error | null;
+  /** Last socket authentication error (if any) */
+  authError: AuthErrorEvent | null;
+  /** Reconnect manually (e.g. after the status became 'failed') */
+  reconnect: () => void;
 }
 
 /**
@@ -21,7 +30,7 @@ export interface UseChatConnectionReturn {
  * @example
  * ```tsx
  * function ConnectionStatus() {
- *   const { isConnected, isInitialized, isRegistered, error } = useChatConnection();
+ *   const { isConnected, isInitialized, connectionState, error, reconnect } = useChatConnection();
  *
  *   if (error) {
  *     return <Text>Error: {error.message}</Text>;
@@ -31,6 +40,14 @@ export interface UseChatConnectionReturn {
  *     return <Text>Initializing...</Text>;
  *   }
  *
+ *   if (connectionState.status === 'reconnecting') {
+ *     return <Text>Reconnecting ({connectionState.attempt}/{connectionState.maxAttempts ?? '∞'})</Text>;
+ *   }
+ *
+ *   if (connectionState.status === 'failed') {
+ *     return <Button title="Retry" onPress={reconnect} />;
+ *   }
+ *
  *   return (
  *     <View style={[styles.status, isConnected ? styles.online : styles.offline]}>
  *       <Text>{isConnected ? 'Online' : 'Offline'}</Text>
@@ -42,13 +59,19 @@ export interface UseChatConnectionReturn {
 export function useChatConnection(): UseChatConnectionReturn {
   const {
     isConnected: contextIsConnected,
+    connectionState: contextConnectionState,
     isInitialized,
     isRegistered,
     error,
     onConnectionChange,
+    onConnectionStateChange,
+    onAuthError,
+    reconnect,
   } = useFcrmChatContext();
 
   const [isConnected, setIsConnected] = useState(contextIsConnected);
+  const [connectionState, setConnectionState] = useState(contextConnectionState);
+  const [authError, setAuthError] = useState<AuthErrorEvent | null>(null);
 
   useEffect(() => {
     // Sync with context value
@@ -62,11 +85,41 @@ export function useChatConnection(): UseChatConnectionReturn {
     return unsubscribe;
   }, [onConnectionChange]);
 
+  useEffect(() => {
+    // Sync with context value
+    setConnectionState(contextConnectionState);
+  }, [contextConnectionState]);
+
+  useEffect(() => {
+    const unsubscribe = onConnectionStateChange((state) => {
+      setConnectionState(state);
+    });
+    return unsubscribe;
+  }, [onConnectionStateChange]);
+
+  useEffect(() => {
+    const unsubscribe = onAuthError((event) => {
+      setAuthError(event);
+    });
+    return unsubscribe;
+  }, [onAuthError]);
+
+  useEffect(() => {
+    // Clear the auth error once connected again
+    if (connectionState.status === 'connected') {
+      setAuthError(null);
+    }
+  }, [connectionState.status]);
+
   return {
     isConnected,
+    connectionState,
+    status: connectionState.status,
     isInitialized,
     isRegistered,
     error,
+    authError,
+    reconnect,
   };
 }
 
@@ -1,6 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useFcrmChatContext } from '../context/FcrmChatContext';
-import { ChatMessage } from '../types';
+import {
+  ChatMessage,
+  applyMessageDeletion,
+  applyMessageReaction,
+  applyReadReceipt,
+  fillReplyPreview,
+  getLatestUnreadIncomingId,
+  isMessageDeleted,
+  mergeMessage,
+  mergeMessages,
+} from '../types';
+import { RequestCancelledException } from '../utils/errors';
+import { useAbortSignal } from './useAbortSignal';
 
 /**
  * Options for useChatMessages hook
@@ -10,16 +22,28 @@ export interface UseChatMessagesOptions {
   autoLoad?: boolean;
   /** Number of messages per page (default: 20) */
   perPage?: number;
+  /** Show locally cached messages until the first page is loaded (default: true) */
+  useCache?: boolean;
+  /**
+   * Mark incoming messages as read as soon as they are shown (default: false)
+   *
+   * Enable only where the list is actually on screen, e.g. the chat screen.
+   */
+  autoMarkRead?: boolean;
+  /** Keep deleted messages as tombstones instead of removing them (default: true) */
+  showDeleted?: boolean;
 }
 
 /**
  * Return value from useChatMessages hook
  */
 export interface UseChatMessagesReturn {
-  /** Array of chat messages (newest first) */
+  /** Array of chat messages (newest first, including optimistic local messages) */
   messages: ChatMessage[];
   /** Whether messages are currently loading */
   isLoading: boolean;
+  /** Whether the list shows cached messages that have not been revalidated yet */
+  isStale: boolean;
   /** Error if loading failed */
   error: Error | null;
   /** Whether there are more messages to load */
@@ -30,6 +54,18 @@ export interface UseChatMessagesReturn {
   loadMore: () => Promise<void>;
   /** Refresh messages (reset to page 1) */
   refresh: () => Promise<void>;
+  /** Mark incoming messages as read, up to a message (default: the newest unread one) */
+  markAsRead: (upToMessageId?: number) => Promise<void>;
+  /** Get the message a reply refers to (from the list, the cache or the server), or null */
+  resolveReplyTo: (message: ChatMessage) => Promise<ChatMessage | null>;
+}
+
+/**
+ * Drop deleted messages from a list unless tombstones are shown
+ */
+function withoutDeleted(messages: ChatMessage[], showDeleted: boolean): ChatMessage[] {
+  if (showDeleted || !messages.some(isMessageDeleted)) return messages;
+  return messages.filter((m) => !isMessageDeleted(m));
 }
 
 /**
@@ -56,79 +92,174 @@ export interface UseChatMessagesReturn {
  * ```
  */
 export function useChatMessages(options: UseChatMessagesOptions = {}): UseChatMessagesReturn {
-  const { autoLoad = true, perPage = 20 } = options;
-  const { loadMessages, onMessage, isInitialized, isRegistered } = useFcrmChatContext();
+  const {
+    autoLoad = true,
+    perPage = 20,
+    useCache = true,
+    autoMarkRead = false,
+    showDeleted = true,
+  } = options;
+  const {
+    loadMessages,
+    getCachedMessages,
+    resolveMessage,
+    onMessage,
+    onReadReceipt,
+    onMessageDeleted,
+    onMessageReaction,
+    markAsRead: markMessagesAsRead,
+    isInitialized,
+    isRegistered,
+    browserKey,
+  } = useFcrmChatContext();
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStale, setIsStale] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [pagination, setPagination] = useState({ hasMore: false, currentPage: 0, lastPage: 1 });
 
+  // In-flight requests are aborted on unmount
+  const getSignal = useAbortSignal();
+
   // Subscribe to new messages
   useEffect(() => {
     const unsubscribe = onMessage((newMessage) => {
-      setMessages((prev) => {
-        // Check if message already exists (by id)
-        const exists = prev.some((m) => m.id === newMessage.id);
-        if (exists) {
-          // Update existing message (e.g., for edits)
-          return prev.map((m) => (m.id === newMessage.id ? newMessage : m));
-        }
-        // Add new message at the beginning (newest first)
-        return [newMessage, ...prev];
-      });
+      // Add new messages at the beginning (newest first), update existing ones
+      // (e.g., for edits) and reconcile optimistic messages
+      setMessages((prev) =>
+        withoutDeleted(mergeMessage(prev, fillReplyPreview(newMessage, prev)), showDeleted)
+      );
     });
     return unsubscribe;
-  }, [onMessage]);
+  }, [onMessage, showDeleted]);
+
+  // Apply read receipts to the loaded messages
+  useEffect(() => {
+    const unsubscribe = onReadReceipt((receipt) => {
+      setMessages((prev) => applyReadReceipt(prev, receipt));
+    });
+    return unsubscribe;
+  }, [onReadReceipt]);
+
+  // Turn deleted messages into tombstones (or drop them)
+  useEffect(() => {
+    const unsubscribe = onMessageDeleted((event) => {
+      setMessages((prev) => applyMessageDeletion(prev, event, showDeleted));
+    });
+    return unsubscribe;
+  }, [onMessageDeleted, showDeleted]);
+
+  // Update reaction counts live (own reactions and the agent's)
+  useEffect(() => {
+    const unsubscribe = onMessageReaction((event) => {
+      setMessages((prev) => applyMessageReaction(prev, event));
+    });
+    return unsubscribe;
+  }, [onMessageReaction]);
+
+  // Render cached messages immediately (stale-while-revalidate)
+  useEffect(() => {
+    if (!useCache) return;
+
+    let cancelled = false;
+    getCachedMessages()
+      .then((cached) => {
+        if (cancelled || cached.length === 0) return;
+        // The cache keeps tombstones
+        setMessages((prev) => withoutDeleted(mergeMessages(prev, cached), showDeleted));
+        setIsStale(true);
+      })
+      .catch(() => {
+        // Cache is best effort
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [useCache, getCachedMessages, browserKey, showDeleted]);
 
   // Refresh messages (reset to page 1)
   const refresh = useCallback(async () => {
     if (!isInitialized) return;
 
+    const signal = getSignal();
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = await loadMessages(1, perPage);
-      setMessages(result.messages);
+      const result = await loadMessages(1, perPage, signal);
+      // Merge into cached and local messages instead of replacing them
+      setMessages((prev) => withoutDeleted(mergeMessages(prev, result.messages), showDeleted));
+      setIsStale(false);
       setPagination({
         hasMore: result.hasMore,
         currentPage: result.currentPage,
         lastPage: result.lastPage,
       });
     } catch (e) {
+      if (e instanceof RequestCancelledException) return;
       setError(e instanceof Error ? e : new Error(String(e)));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [isInitialized, loadMessages, perPage]);
+  }, [isInitialized, loadMessages, perPage, showDeleted, getSignal]);
 
   // Load more messages (next page)
   const loadMore = useCallback(async () => {
     if (!isInitialized || isLoading || !pagination.hasMore) return;
 
     const nextPage = pagination.currentPage + 1;
+    const signal = getSignal();
     setIsLoading(true);
 
     try {
-      const result = await loadMessages(nextPage, perPage);
-      setMessages((prev) => {
-        // Filter out duplicates by id
-        const existingIds = new Set(prev.map((m) => m.id));
-        const newMessages = result.messages.filter((m) => !existingIds.has(m.id));
-        return [...prev, ...newMessages];
-      });
+      const result = await loadMessages(nextPage, perPage, signal);
+      // Merge without duplicates
+      setMessages((prev) => withoutDeleted(mergeMessages(prev, result.messages), showDeleted));
       setPagination({
         hasMore: result.hasMore,
         currentPage: result.currentPage,
         lastPage: result.lastPage,
       });
     } catch (e) {
+      if (e instanceof RequestCancelledException) return;
       setError(e instanceof Error ? e : new Error(String(e)));
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setIsLoading(false);
+      }
     }
-  }, [isInitialized, isLoading, loadMessages, perPage, pagination]);
+  }, [isInitialized, isLoading, loadMessages, perPage, pagination, showDeleted, getSignal]);
+
+  // Mark incoming messages as read (up to a message, or the newest unread one)
+  const markAsRead = useCallback(
+    async (upToMessageId?: number) => {
+      const messageId = upToMessageId ?? getLatestUnreadIncomingId(messages);
+      if (messageId === null || !isRegistered) return;
+      await markMessagesAsRead(messageId, getSignal());
+    },
+    [messages, isRegistered, markMessagesAsRead, getSignal]
+  );
+
+  // Resolve the message a reply refers to, fetching it if it is not loaded
+  const resolveReplyTo = useCallback(
+    async (message: ChatMessage) => {
+      if (!message.replyTo) return null;
+      return await resolveMessage(message.replyTo.id, messages, getSignal());
+    },
+    [messages, resolveMessage, getSignal]
+  );
+
+  // Mark new incoming messages as read while the list is shown
+  useEffect(() => {
+    if (!autoMarkRead) return;
+    markAsRead().catch(() => {
+      // Retried when the next message arrives
+    });
+  }, [autoMarkRead, markAsRead]);
 
   // Auto-load on mount when initialized and registered
   useEffect(() => {
@@ -140,11 +271,14 @@ export function useChatMessages(options: UseChatMessagesOptions = {}): UseChatMe
   return {
     messages,
     isLoading,
+    isStale,
     error,
     hasMore: pagination.hasMore,
     currentPage: pagination.currentPage,
     loadMore,
     refresh,
+    markAsRead,
+    resolveReplyTo,
   };
 }
 
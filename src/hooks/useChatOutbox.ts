@@ -0,0 +1,73 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useFcrmChatContext } from '../context/FcrmChatContext';
+import { OutboxItem } from '../types';
+
+/**
+ * Return value from useChatOutbox hook
+ */
+export interface UseChatOutboxReturn {
+  /** Messages waiting in the outbox (oldest first) */
+  items: OutboxItem[];
+  /** Number of items queued or being sent */
+  pendingCount: number;
+  /** Number of items that gave up and need a manual retry */
+  failedCount: number;
+  /** Retry an item immediately */
+  retry: (id: string) => Promise<void>;
+  /** Remove an item without sending it */
+  remove: (id: string) => Promise<void>;
+  /** Send all queued items now */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Hook for tracking messages in the offline outbox
+ *
+ * @example
+ * ```tsx
+ * function PendingMessages() {
+ *   const { items, retry, remove } = useChatOutbox();
+ *
+ *   return items.map((item) => (
+ *     <View key={item.id}>
+ *       <Text>{item.message} ({item.status})</Text>
+ *       {item.status === 'failed' && <Button title="Retry" onPress={() => retry(item.id)} />}
+ *       <Button title="Discard" onPress={() => remove(item.id)} />
+ *     </View>
+ *   ));
+ * }
+ * ```
+ */
+export function useChatOutbox(): UseChatOutboxReturn {
+  const { getOutboxItems, onOutboxChange, retryOutboxItem, removeOutboxItem, flushOutbox } =
+    useFcrmChatContext();
+
+  const [items, setItems] = useState<OutboxItem[]>(() => getOutboxItems());
+
+  useEffect(() => {
+    // Sync with items changed before subscribing
+    setItems(getOutboxItems());
+    const unsubscribe = onOutboxChange((nextItems) => {
+      setItems(nextItems);
+    });
+    return unsubscribe;
+  }, [getOutboxItems, onOutboxChange]);
+
+  const counts = useMemo(
+    () => ({
+      pendingCount: items.filter((item) => item.status !== 'failed').length,
+      failedCount: items.filter((item) => item.status === 'failed').length,
+    }),
+    [items]
+  );
+
+  return {
+    items,
+    ...counts,
+    retry: retryOutboxItem,
+    remove: removeOutboxItem,
+    flush: flushOutbox,
+  };
+}
+
+export default useChatOutbox;
@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef } from 'react';
+import { useFcrmChatContext } from '../context/FcrmChatContext';
+import { ParticipantEvent } from '../types';
+
+/**
+ * Options for useChatParticipants hook
+ */
+export interface UseChatParticipantsOptions {
+  /** Called when a participant joins */
+  onJoined?: (event: ParticipantEvent) => void;
+  /** Called when a participant leaves */
+  onLeft?: (event: ParticipantEvent) => void;
+}
+
+/**
+ * Return value from useChatParticipants hook
+ */
+export interface UseChatParticipantsReturn {
+  /** Participants that joined and have not left (since mount) */
+  participants: ParticipantEvent[];
+  /** Most recent join event */
+  lastJoined: ParticipantEvent | null;
+  /** Most recent leave event */
+  lastLeft: ParticipantEvent | null;
+}
+
+/**
+ * Identify a participant across join/leave events
+ */
+function participantKey(event: ParticipantEvent): string {
+  return event.id ?? event.name ?? JSON.stringify(event.data);
+}
+
+/**
+ * Hook for tracking participants (e.g. agents) joining and leaving the conversation
+ *
+ * @example
+ * ```tsx
+ * function AgentBanner() {
+ *   const { participants } = useChatParticipants();
+ *   const agent = participants.find((p) => p.type === 'admin');
+ *
+ *   return agent ? <Text>{agent.name} joined the chat</Text> : null;
+ * }
+ * ```
+ */
+export function useChatParticipants(
+  options: UseChatParticipantsOptions = {}
+): UseChatParticipantsReturn {
+  const { onJoined, onLeft } = options;
+  const { onParticipantJoined, onParticipantLeft } = useFcrmChatContext();
+
+  const [participants, setParticipants] = useState<ParticipantEvent[]>([]);
+  const [lastJoined, setLastJoined] = useState<ParticipantEvent | null>(null);
+  const [lastLeft, setLastLeft] = useState<ParticipantEvent | null>(null);
+
+  // Latest callbacks, so inline functions do not resubscribe on every render
+  const callbacksRef = useRef({ onJoined, onLeft });
+  callbacksRef.current = { onJoined, onLeft };
+
+  useEffect(() => {
+    const unsubscribe = onParticipantJoined((event) => {
+      const key = participantKey(event);
+      setParticipants((prev) => [...prev.filter((p) => participantKey(p) !== key), event]);
+      setLastJoined(event);
+      callbacksRef.current.onJoined?.(event);
+    });
+    return unsubscribe;
+  }, [onParticipantJoined]);
+
+  useEffect(() => {
+    const unsubscribe = onParticipantLeft((event) => {
+      const key = participantKey(event);
+      setParticipants((prev) => prev.filter((p) => participantKey(p) !== key));
+      setLastLeft(event);
+      callbacksRef.current.onLeft?.(event);
+    });
+    return unsubscribe;
+  }, [onParticipantLeft]);
+
+  return {
+    participants,
+    lastJoined,
+    lastLeft,
+  };
+}
+
+export default useChatParticipants;
@@ -0,0 +1,115 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useFcrmChatContext } from '../context/FcrmChatContext';
+import { UploadFile, UploadItem, UploadQueueProgress, getUploadQueueProgress } from '../types';
+
+/**
+ * Return value from useChatUploads hook
+ */
+export interface UseChatUploadsReturn {
+  /** Items in the upload queue (oldest first) */
+  items: UploadItem[];
+  /** Aggregate progress of all items that are not cancelled or failed */
+  progress: UploadQueueProgress;
+  /** Whether any item is queued, uploading or waiting to retry */
+  isUploading: boolean;
+  /** Number of items queued, uploading or waiting to retry */
+  pendingCount: number;
+  /** Number of items that gave up and need a manual retry */
+  failedCount: number;
+  /** Queue images for upload */
+  uploadImages: (images: Array<string | UploadFile>, endpoint?: string) => UploadItem[];
+  /** Queue files for upload */
+  uploadFiles: (files: Array<string | UploadFile>, endpoint?: string) => UploadItem[];
+  /** Cancel an item */
+  cancel: (id: string) => void;
+  /** Cancel all pending items */
+  cancelAll: () => void;
+  /** Upload a failed or cancelled item again */
+  retry: (id: string) => void;
+  /** Remove an item, cancelling it if still pending */
+  remove: (id: string) => void;
+  /** Remove completed items */
+  clearCompleted: () => void;
+}
+
+/**
+ * Hook for uploading several attachments with per-item progress
+ *
+ * @example
+ * ```tsx
+ * function Attachments() {
+ *   const { items, progress, uploadImages, cancel, retry } = useChatUploads();
+ *
+ *   const pick = async () => {
+ *     const result = await ImagePicker.launchImageLibraryAsync({ allowsMultipleSelection: true });
+ *     if (!result.canceled) {
+ *       uploadImages(result.assets.map((a) => ({ uri: a.uri, size: a.fileSize })));
+ *     }
+ *   };
+ *
+ *   return (
+ *     <View>
+ *       <Button title="Add photos" onPress={pick} />
+ *       <Text>{Math.round(progress.progress * 100)}%</Text>
+ *       {items.map((item) => (
+ *         <View key={item.id}>
+ *           <Text>{item.file.uri} ({item.status})</Text>
+ *           {item.status === 'uploading' && <Button title="Cancel" onPress={() => cancel(item.id)} />}
+ *           {item.status === 'failed' && <Button title="Retry" onPress={() => retry(item.id)} />}
+ *         </View>
+ *       ))}
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useChatUploads(): UseChatUploadsReturn {
+  const {
+    getUploads,
+    onUploadsChange,
+    uploadImages,
+    uploadFiles,
+    cancelUpload,
+    cancelAllUploads,
+    retryUpload,
+    removeUpload,
+    clearCompletedUploads,
+  } = useFcrmChatContext();
+
+  const [items, setItems] = useState<UploadItem[]>(() => getUploads());
+
+  useEffect(() => {
+    // Sync with items changed before subscribing
+    setItems(getUploads());
+    const unsubscribe = onUploadsChange((nextItems) => {
+      setItems(nextItems);
+    });
+    return unsubscribe;
+  }, [getUploads, onUploadsChange]);
+
+  const summary = useMemo(() => {
+    const pendingCount = items.filter(
+      (item) => item.status === 'queued' || item.status === 'uploading' || item.status === 'retrying'
+    ).length;
+    return {
+      progress: getUploadQueueProgress(items),
+      isUploading: pendingCount > 0,
+      pendingCount,
+      failedCount: items.filter((item) => item.status === 'failed').length,
+    };
+  }, [items]);
+
+  return {
+    items,
+    ...summary,
+    uploadImages,
+    uploadFiles,
+    cancel: cancelUpload,
+    cancelAll: cancelAllUploads,
+    retry: retryUpload,
+    remove: removeUpload,
+    clearCompleted: clearCompletedUploads,
+  };
+}
+
+export default useChatUploads;
@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { useFcrmChatContext } from '../context/FcrmChatContext';
+
+/**
+ * Return value from useUnreadCount hook
+ */
+export interface UseUnreadCountReturn {
+  /** Number of unread admin/ai messages */
+  count: number;
+  /** Whether there are unread messages */
+  hasUnread: boolean;
+  /** Mark all incoming messages as read (resets the count) */
+  markAllAsRead: () => Promise<void>;
+}
+
+/**
+ * Hook for the persisted unread message count (e.g. for a tab badge)
+ *
+ * The count is kept up to date by the provider, so it works without a mounted
+ * chat screen and survives app restarts.
+ *
+ * @example
+ * ```tsx
+ * function ChatTabIcon() {
+ *   const { count } = useUnreadCount();
+ *
+ *   return <Badge visible={count > 0}>{count > 99 ? '99+' : count}</Badge>;
+ * }
+ * ```
+ */
+export function useUnreadCount(): UseUnreadCountReturn {
+  const { getUnreadCount, onUnreadCountChange, markAllAsRead } = useFcrmChatContext();
+
+  const [count, setCount] = useState(() => getUnreadCount());
+
+  useEffect(() => {
+    // Sync with changes made before subscribing
+    setCount(getUnreadCount());
+    const unsubscribe = onUnreadCountChange((nextCount) => {
+      setCount(nextCount);
+    });
+    return unsubscribe;
+  }, [getUnreadCount, onUnreadCountChange]);
+
+  return {
+    count,
+    hasUnread: count > 0,
+    markAllAsRead,
+  };
+}
+
+export default useUnreadCount;
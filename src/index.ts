@@ -6,6 +6,9 @@ export {
   type FcrmChatProviderProps,
 } from './context';
 
+// Headless client (framework-agnostic)
+export { FcrmChatClient, type ChatStateListener } from './client';
+
 // Main hook (primary API)
 export { useFcrmChat } from './hooks/useFcrmChat';
 
@@ -21,6 +24,15 @@ export {
   type UseChatTypingOptions,
   type UseChatTypingReturn,
 } from './hooks/useChatTyping';
+export { useChatOutbox, type UseChatOutboxReturn } from './hooks/useChatOutbox';
+export { useChatUploads, type UseChatUploadsReturn } from './hooks/useChatUploads';
+export { useUnreadCount, type UseUnreadCountReturn } from './hooks/useUnreadCount';
+export {
+  useChatParticipants,
+  type UseChatParticipantsOptions,
+  type UseChatParticipantsReturn,
+} from './hooks/useChatParticipants';
+export { useAbortSignal } from './hooks/useAbortSignal';
 
 // Types
 export type {
@@ -28,6 +40,7 @@ export type {
   ChatConfigWithDefaults,
   ChatMessage,
   MessageType,
+  MessageStatus,
   SocketMessage,
   PaginatedMessages,
   RegistrationResponse,
@@ -36,9 +49,57 @@ export type {
   UpdateUserDataResponse,
   SendProgressCallback,
   UploadResponse,
+  UploadFile,
+  UploadLimits,
+  ChatUploadOptions,
+  ChatChunkedUploadOptions,
+  ChunkReader,
+  ChunkFileSystem,
+  UploadKind,
+  UploadSession,
+  UploadItem,
+  UploadItemStatus,
+  UploadQueueProgress,
+  ChatUploadQueueOptions,
+  UploadTransformer,
+  UploadTransformContext,
   ChatAppRemoteConfig,
   UserData,
   ChatState,
+  ChatStorageAdapter,
+  OutboxItem,
+  OutboxItemStatus,
+  ChatOutboxOptions,
+  ChatMessageCacheOptions,
+  ConnectionState,
+  ConnectionStatus,
+  ChatReconnectionOptions,
+  ChatSyncOptions,
+  ChatLifecycleOptions,
+  AppStateSource,
+  AppStateSubscription,
+  AuthErrorEvent,
+  ParticipantEvent,
+  ReadReceiptEvent,
+  MarkAsReadResponse,
+  MessageDeletedEvent,
+  DeleteMessageResponse,
+  MessageReaction,
+  MessageReactionEvent,
+  ReplyPreview,
+  ReactionResponse,
+  UnreadState,
+  ChatSigner,
+  ChatSignRequest,
+  ChatRequest,
+  ChatResponse,
+  ChatCachedResponse,
+  ChatMiddleware,
+  ChatLogger,
+  LogEntry,
+  LogLevel,
+  LogCategory,
+  ChatRetryOptions,
 } from './types';
 
 // Type utilities
@@ -55,27 +116,119 @@ export {
   getMessageEditedAt,
   getMessageOriginalContent,
   canEditMessage,
+  isLocalMessage,
+  mergeMessage,
+  mergeMessages,
+  sortMessages,
+  serializeChatMessage,
   parseChatAppRemoteConfig,
   getStartText,
   isAiAgentEnabled,
   getMsHeaderColor,
   getMsNameColor,
+  getUploadLimits,
+  getUploadQueueProgress,
   createEmptyPaginatedMessages,
+  createIdleConnectionState,
+  parseAuthErrorEvent,
+  parseParticipantEvent,
+  parseReadReceiptEvent,
+  parseMessageDeletedEvent,
+  isMessageDeleted,
+  canDeleteMessage,
+  createDeletedMessage,
+  applyMessageDeletion,
+  parseMessageReactionEvent,
+  parseMessageReactions,
+  canReactToMessage,
+  applyReactionChange,
+  applyMessageReaction,
+  createReplySnippet,
+  createReplyPreview,
+  findMessageById,
+  fillReplyPreview,
+  applyReadReceipt,
+  isIncomingMessage,
+  getLatestUnreadIncomingId,
 } from './types';
 
 // Utilities (for advanced users)
-export { generateSignature } from './utils/hmac';
-export { ChatException, ChatApiException, UploadCancelledException } from './utils/errors';
+export {
+  generateSignature,
+  generateRequestSignature,
+  hashBody,
+  generateNonce,
+  type RequestSignatureParams,
+} from './utils/hmac';
+export { createHmacSigner, createRemoteSigner, type RemoteSignature } from './utils/signer';
+export {
+  MimeTypeRegistry,
+  DEFAULT_MIME_TYPES,
+  getFileExtension,
+  matchesMimeType,
+} from './utils/mime';
+export {
+  resolveUploadFile,
+  validateUploadFile,
+  applyUploadTransformers,
+  getUploadMetadata,
+  createFetchChunkReader,
+  createFileSystemChunkReader,
+  type ResolvedUploadFile,
+} from './utils/upload';
+export {
+  createConsoleLogger,
+  createScopedLogger,
+  redactLogFields,
+  type ScopedLogger,
+} from './utils/logger';
+export {
+  ChatException,
+  ChatApiException,
+  ChatNetworkException,
+  ChatTimeoutException,
+  ChatValidationException,
+  ChatUnauthorizedException,
+  ChatRateLimitedException,
+  ChatServerException,
+  RequestCancelledException,
+  UploadCancelledException,
+  MessageQueuedException,
+} from './utils/errors';
 
 // Services (for advanced users who need direct access)
 export { ChatApiService, CancelToken } from './services/api.service';
 export { ChatSocketService } from './services/socket.service';
 export { ChatStorageService } from './services/storage.service';
+export { ChatOutboxService } from './services/outbox.service';
+export { ChatChunkedUploadService } from './services/chunked-upload.service';
+export { ChatUploadQueueService } from './services/upload-queue.service';
+export { ChatUnreadService } from './services/unread.service';
+export { ChatMessageCacheService } from './services/cache.service';
+export { ChatSyncService } from './services/sync.service';
+export { ChatLifecycleService } from './services/lifecycle.service';
+export {
+  AsyncStorageAdapter,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+} from './services/storage.adapters';
 
 // Re-export service callback types
 export type {
   ConnectionChangeCallback,
+  ConnectionStateCallback,
   MessageCallback,
   TypingCallback,
   BrowserKeyUpdateCallback,
+  AuthErrorCallback,
+  ParticipantCallback,
 } from './services/socket.service';
+export type {
+  OutboxSender,
+  OutboxChangeCallback,
+  OutboxSentCallback,
+  OutboxFailedCallback,
+  OutboxEnqueueOptions,
+} from './services/outbox.service';
+export type { MessagePageFetcher } from './services/sync.service';
+export type { LifecycleHandlers } from './services/lifecycle.service';
@@ -0,0 +1,165 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ChatConfig, applyConfigDefaults } from '../types';
+import { ChatApiException } from '../utils/errors';
+import { ChatApiService } from './api.service';
+
+type Reply = { status: number; data?: Record<string, unknown>; headers?: Record<string, string> } | 'network';
+
+/**
+ * Axios adapter that answers requests from a list of replies (the last one repeats)
+ */
+function createAdapter(replies: Reply[]) {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter = vi.fn<AxiosAdapter>(async (config) => {
+    requests.push(config);
+    const reply = replies[Math.min(requests.length - 1, replies.length - 1)];
+    if (reply === 'network') {
+      throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config);
+    }
+
+    const response: AxiosResponse = {
+      data: reply.data ?? { success: true },
+      status: reply.status,
+      statusText: '',
+      headers: reply.headers ?? {},
+      config,
+    };
+    if (reply.status >= 400) {
+      throw new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, config, null, response);
+    }
+    return response;
+  });
+  return { adapter, requests };
+}
+
+function createService(config: Partial<ChatConfig> = {}): ChatApiService {
+  return new ChatApiService(
+    applyConfigDefaults({
+      baseUrl: 'https://chat.example.com',
+      companyToken: 'company',
+      appKey: 'app',
+      appSecret: 'secret',
+      retry: { initialDelay: 1, maxDelay: 1 },
+      ...config,
+    })
+  );
+}
+
+describe('ChatApiService retry policy', () => {
+  const defaultAdapter = axios.defaults.adapter;
+
+  afterEach(() => {
+    axios.defaults.adapter = defaultAdapter;
+  });
+
+  function useReplies(replies: Reply[]) {
+    const mock = createAdapter(replies);
+    axios.defaults.adapter = mock.adapter;
+    return mock;
+  }
+
+  it('retries a keyed POST with the same Idempotency-Key', async () => {
+    const { requests } = useReplies(['network', { status: 503 }, { status: 200, data: { success: true } }]);
+
+    await createService().sendMessage('browser', 'Hello');
+
+    expect(requests).toHaveLength(3);
+    const keys = requests.map((r) => r.headers['Idempotency-Key']);
+    expect(keys[0]).toBeTruthy();
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('retries deletes and reactions with a stable Idempotency-Key', async () => {
+    const { requests } = useReplies(['network', { status: 200, data: { success: true } }]);
+    const service = createService();
+
+    await service.deleteMessage('browser', 7);
+    await service.addReaction('browser', 7, '👍');
+
+    expect(requests.map((r) => [r.url, r.headers['Idempotency-Key']])).toEqual([
+      ['/delete-message', 'delete-7'],
+      ['/delete-message', 'delete-7'],
+      ['/add-reaction', expect.stringMatching(/^reaction-add-/)],
+    ]);
+  });
+
+  it('retries requests marked idempotent', async () => {
+    const { requests } = useReplies([{ status: 502 }, { status: 200, data: { success: true } }]);
+
+    await createService().markAsRead('browser', 7);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('does not retry uploads', async () => {
+    const { requests } = useReplies(['network']);
+
+    await expect(
+      createService().uploadFile('browser', { uri: 'file:///tmp/a.txt', name: 'a.txt', type: 'text/plain' })
+    ).rejects.toBeInstanceOf(ChatApiException);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('sends the given Idempotency-Key with an upload', async () => {
+    const { requests } = useReplies([{ status: 200, data: { success: true, url: 'https://cdn/a.txt' } }]);
+    const file = { uri: 'file:///tmp/a.txt', name: 'a.txt', type: 'text/plain' };
+
+    await createService().uploadFile('browser', file, undefined, undefined, undefined, 'upload-1');
+
+    expect(requests[0].headers['Idempotency-Key']).toBe('upload-1');
+  });
+
+  it('does not retry client errors', async () => {
+    const { requests } = useReplies([{ status: 400, data: { error: 'Bad request' } }]);
+
+    await expect(createService().sendMessage('browser', 'Hello')).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops after maxAttempts', async () => {
+    const { requests } = useReplies(['network']);
+
+    await expect(
+      createService({ retry: { maxAttempts: 2, initialDelay: 1, maxDelay: 1 } }).sendMessage('browser', 'Hello')
+    ).rejects.toMatchObject({ statusCode: 0 });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('only retries the configured endpoints when given', async () => {
+    const { requests } = useReplies(['network']);
+    const service = createService({
+      retry: { endpoints: ['/upload-file'], maxAttempts: 2, initialDelay: 1, maxDelay: 1 },
+    });
+
+    await expect(service.sendMessage('browser', 'Hello')).rejects.toBeInstanceOf(ChatApiException);
+    expect(requests).toHaveLength(1);
+
+    await expect(
+      service.uploadFile('browser', { uri: 'file:///tmp/a.txt', name: 'a.txt', type: 'text/plain' })
+    ).rejects.toBeInstanceOf(ChatApiException);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('gives up when Retry-After exceeds maxDelay', async () => {
+    const { requests } = useReplies([{ status: 429, headers: { 'retry-after': '60' } }]);
+
+    await expect(createService().sendMessage('browser', 'Hello')).rejects.toMatchObject({
+      statusCode: 429,
+    });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('waits for a Retry-After within maxDelay', async () => {
+    const { requests } = useReplies([
+      { status: 429, headers: { 'retry-after': '0' } },
+      { status: 200, data: { success: true } },
+    ]);
+
+    await createService().sendMessage('browser', 'Hello');
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -1,10 +1,4 @@
-import axios, {
-  AxiosInstance,
-  AxiosError,
-  AxiosProgressEvent,
-  CancelTokenSource,
-  CancelToken as AxiosCancelToken,
-} from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosProgressEvent, AxiosResponse } from 'axios';
 import {
   ChatConfigWithDefaults,
   getApiUrl,
@@ -16,49 +10,122 @@ import {
   parseSendMessageResponse,
   EditMessageResponse,
   parseEditMessageResponse,
+  MarkAsReadResponse,
+  parseMarkAsReadResponse,
+  DeleteMessageResponse,
+  parseDeleteMessageResponse,
+  ReactionResponse,
+  parseReactionResponse,
   UpdateUserDataResponse,
   parseUpdateUserDataResponse,
   PaginatedMessages,
   parsePaginatedMessages,
+  ChatMessage,
+  parseChatMessage,
   SendProgressCallback,
+  ChatSigner,
+  ChatSignRequest,
+  ChatMiddleware,
+  ChatRequest,
+  ChatResponse,
+  ChatRetryOptions,
+  UploadFile,
+  UploadLimits,
+  UploadResponse,
+  parseUploadResponse,
+  ChunkedUploadStatusResponse,
+  parseChunkedUploadStatusResponse,
+  UploadKind,
+  getUploadLimits,
 } from '../types';
-import { generateSignature } from '../utils/hmac';
-import { ChatApiException, UploadCancelledException } from '../utils/errors';
+import { createHmacSigner } from '../utils/signer';
+import { generateNonce, hashBody } from '../utils/hmac';
+import { generateId } from '../utils/id';
+import { MimeTypeRegistry } from '../utils/mime';
+import {
+  ResolvedUploadFile,
+  getUploadMetadata,
+  lookupFileSize,
+  resolveUploadFile,
+  validateUploadFile,
+} from '../utils/upload';
+import { ScopedLogger, createLoggerFromConfig } from '../utils/logger';
+import { computeBackoffDelay, parseRetryAfter, wait } from '../utils/backoff';
+import {
+  ChatApiException,
+  ChatException,
+  ChatNetworkException,
+  ChatRateLimitedException,
+  ChatServerException,
+  ChatTimeoutException,
+  ChatUnauthorizedException,
+  ChatValidationException,
+  RequestCancelledException,
+  UploadCancelledException,
+} from '../utils/errors';
 
 /**
- * Cancel token for upload operations
+ * Cancel token for upload operations (wraps an AbortController)
  */
 export class CancelToken {
-  private _isCancelled = false;
-  private _source: CancelTokenSource;
-
-  constructor() {
-    this._source = axios.CancelToken.source();
-  }
+  private _controller = new AbortController();
 
   /**
    * Whether this token has been cancelled
    */
   get isCancelled(): boolean {
-    return this._isCancelled;
+    return this._controller.signal.aborted;
   }
 
   /**
-   * Get axios cancel token
+   * Signal aborted when the token is cancelled
    */
-  get axiosToken(): AxiosCancelToken {
-    return this._source.token;
+  get signal(): AbortSignal {
+    return this._controller.signal;
   }
 
   /**
    * Cancel the operation
    */
   cancel(): void {
-    if (!this._isCancelled) {
-      this._isCancelled = true;
-      this._source.cancel('Upload cancelled');
+    if (!this.isCancelled) {
+      this._controller.abort();
+    }
+  }
+}
+
+/**
+ * Normalize a Laravel-style `errors` object into field error lists
+ */
+function parseFieldErrors(errors: unknown): Record<string, string[]> {
+  if (!errors || typeof errors !== 'object' || Array.isArray(errors)) return {};
+
+  const result: Record<string, string[]> = {};
+  for (const [field, value] of Object.entries(errors as Record<string, unknown>)) {
+    const messages = (Array.isArray(value) ? value : [value])
+      .filter((item) => item != null)
+      .map(String);
+    if (messages.length > 0) {
+      result[field] = messages;
     }
   }
+  return result;
+}
+
+/**
+ * Options for a single API request
+ */
+interface RequestOptions {
+  params?: Record<string, unknown>;
+  data?: unknown;
+  /** Send data as multipart form data instead of JSON */
+  multipart?: boolean;
+  /** Idempotency-Key header, kept across retries */
+  idempotencyKey?: string;
+  /** Safe to repeat without an Idempotency-Key (read-only or replaces state) */
+  idempotent?: boolean;
+  signal?: AbortSignal;
+  onUploadProgress?: (progressEvent: AxiosProgressEvent) => void;
 }
 
 /**
@@ -67,11 +134,39 @@ export class CancelToken {
 export class ChatApiService {
   private client: AxiosInstance;
   private config: ChatConfigWithDefaults;
+  private signer: ChatSigner;
+  /** Server time minus local time in milliseconds (from the Date response header) */
+  private clockOffset = 0;
+  private middlewares: ChatMiddleware[];
+  private logger: ScopedLogger;
+  private remoteUploadLimits: UploadLimits = {};
+  /** Extension → MIME type registry used to type uploads */
+  readonly mimeTypes: MimeTypeRegistry;
+  private retry: Required<Omit<ChatRetryOptions, 'endpoints'>> & { endpoints: string[] | null };
 
   constructor(config: ChatConfigWithDefaults) {
     this.config = config;
+    this.middlewares = [...(config.middleware ?? [])];
+    this.logger = createLoggerFromConfig(config, 'api');
+    this.mimeTypes = new MimeTypeRegistry(config.upload?.mimeTypes);
+    this.retry = {
+      enabled: config.retry?.enabled ?? true,
+      maxAttempts: config.retry?.maxAttempts ?? 3,
+      initialDelay: config.retry?.initialDelay ?? 500,
+      maxDelay: config.retry?.maxDelay ?? 8000,
+      endpoints: config.retry?.endpoints ?? null,
+      respectRetryAfter: config.retry?.respectRetryAfter ?? true,
+    };
     const apiUrl = getApiUrl(config);
 
+    if (config.signer) {
+      this.signer = config.signer;
+    } else if (config.appSecret) {
+      this.signer = createHmacSigner(config.appKey, config.appSecret);
+    } else {
+      throw new ChatException('Either signer or appSecret must be provided in ChatConfig');
+    }
+
     this.client = axios.create({
       baseURL: apiUrl,
       timeout: config.connectionTimeout,
@@ -80,110 +175,403 @@ export class ChatApiService {
         'Content-Type': 'application/json',
       },
     });
+
+    // Track server clock skew for per-request signature timestamps
+    this.client.interceptors.response.use(
+      (response) => {
+        this.updateClockOffset(response.headers);
+        return response;
+      },
+      (error) => {
+        if (axios.isAxiosError(error) && error.response) {
+          this.updateClockOffset(error.response.headers);
+        }
+        return Promise.reject(error);
+      }
+    );
   }
 
   /**
-   * Log message if logging is enabled
+   * Update the server clock offset from a Date response header
    */
-  private log(message: string): void {
-    if (this.config.enableLogging) {
-      console.log(`[FCRM Chat] ${message}`);
+  private updateClockOffset(headers: unknown): void {
+    const date = (headers as Record<string, unknown> | undefined)?.date;
+    if (typeof date !== 'string') return;
+
+    const serverTime = Date.parse(date);
+    if (!Number.isNaN(serverTime)) {
+      this.clockOffset = serverTime - Date.now();
     }
   }
 
   /**
-   * Get default headers with signature
+   * Get signature for a request from the signer
+   */
+  private async getSignature(request: ChatSignRequest): Promise<string> {
+    return await this.signer.sign(request);
+  }
+
+  /**
+   * Build signature headers for a request
+   *
+   * With requestSigning enabled, the signature covers method, path, timestamp,
+   * nonce and body hash, so a captured header cannot be replayed.
    */
-  private getHeaders(isJson = true): Record<string, string> {
-    const headers: Record<string, string> = {
-      Accept: 'application/json',
-      'X-Chat-Signature': generateSignature(this.config.appKey, this.config.appSecret),
-      'X-Chat-App-Key': this.config.appKey,
+  private async getSignatureHeaders(
+    method: ChatSignRequest['method'],
+    path: string,
+    body = ''
+  ): Promise<Record<string, string>> {
+    if (!this.config.requestSigning) {
+      return { 'X-Chat-Signature': await this.getSignature({ method, path }) };
+    }
+
+    const timestamp = Math.floor((Date.now() + this.clockOffset) / 1000);
+    const nonce = generateNonce();
+    const bodyHash = hashBody(body);
+
+    return {
+      'X-Chat-Signature': await this.getSignature({ method, path, timestamp, nonce, bodyHash }),
+      'X-Chat-Timestamp': String(timestamp),
+      'X-Chat-Nonce': nonce,
+      'X-Chat-Content-SHA256': bodyHash,
     };
-    if (isJson) {
-      headers['Content-Type'] = 'application/json';
+  }
+
+  /**
+   * Drop the cached signature if the server rejected it
+   */
+  private handleAuthFailure(error: unknown): void {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      this.signer.invalidate?.();
     }
-    return headers;
   }
 
   /**
-   * Parse error from response
+   * Add a request/response middleware (runs after those already added)
+   * @returns Remove function
    */
-  private parseError(error: unknown): string {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<Record<string, unknown>>;
-      const data = axiosError.response?.data;
-      if (data) {
-        if (data.error) {
-          return String(data.error);
-        }
-        if (data.errors && typeof data.errors === 'object') {
-          const errors = data.errors as Record<string, string[]>;
-          return Object.values(errors).flat().join(', ');
+  use(middleware: ChatMiddleware): () => void {
+    this.middlewares = [...this.middlewares, middleware];
+    return () => {
+      this.middlewares = this.middlewares.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Run a request through middleware, sign it and send it
+   *
+   * GET requests carry the signature as the `sig` query param; POST requests
+   * carry it in headers. Multipart bodies are not hashed.
+   */
+  private async request(
+    method: ChatRequest['method'],
+    path: string,
+    options: RequestOptions = {}
+  ): Promise<Record<string, unknown>> {
+    const middlewares = this.middlewares;
+    const request: ChatRequest = {
+      method,
+      path,
+      headers: { Accept: 'application/json' },
+      params: { ...options.params },
+      data: options.data,
+    };
+    if (method === 'POST') {
+      request.headers['X-Chat-App-Key'] = this.config.appKey;
+      request.headers['Content-Type'] = options.multipart
+        ? 'multipart/form-data'
+        : 'application/json';
+    }
+    if (options.idempotencyKey) {
+      request.headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    try {
+      for (const middleware of middlewares) {
+        const cached = await middleware.onRequest?.(request);
+        if (cached) {
+          this.logger.debug('Request short-circuited by middleware', { path });
+          const response: ChatResponse = {
+            request,
+            status: cached.status ?? 200,
+            headers: cached.headers ?? {},
+            data: cached.data,
+            fromCache: true,
+          };
+          await this.notifyResponse(middlewares, response);
+          return response.data;
         }
-        if (data.message) {
-          return String(data.message);
+      }
+
+      const axiosResponse = await this.sendWithRetry(request, options);
+
+      const response: ChatResponse = {
+        request,
+        status: axiosResponse.status,
+        headers: { ...(axiosResponse.headers as Record<string, string>) },
+        data: axiosResponse.data,
+        fromCache: false,
+      };
+      await this.notifyResponse(middlewares, response);
+      return response.data;
+    } catch (error) {
+      for (const middleware of middlewares) {
+        try {
+          await middleware.onError?.(error, request);
+        } catch (e) {
+          this.logger.warn('Middleware error', { path: request.path, error: e });
         }
       }
-      return `Request failed with status ${axiosError.response?.status ?? 'unknown'}`;
+      throw axios.isCancel(error) ? new RequestCancelledException() : error;
     }
-    return String(error);
   }
 
   /**
-   * Get chat app configuration
+   * Send a request, retrying transient failures according to the retry policy
+   */
+  private async sendWithRetry(request: ChatRequest, options: RequestOptions): Promise<AxiosResponse> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send(request, options);
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt, request, options);
+        if (delay === null) throw error;
+
+        this.logger.warn('Request failed, retrying', {
+          path: request.path,
+          attempt,
+          delayMs: delay,
+          ...this.describeError(this.toApiException(error)),
+        });
+        await wait(delay, options.signal);
+        if (options.signal?.aborted) throw new RequestCancelledException();
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying a failed attempt
+   * @returns Delay in ms, or null if the request should not be retried
+   */
+  private getRetryDelay(
+    error: unknown,
+    attempt: number,
+    request: ChatRequest,
+    options: RequestOptions
+  ): number | null {
+    const policy = this.retry;
+    if (!policy.enabled || attempt >= policy.maxAttempts) return null;
+    if (axios.isCancel(error) || options.signal?.aborted) return null;
+    const retryable = policy.endpoints
+      ? policy.endpoints.includes(request.path)
+      : this.isRepeatable(request, options);
+    if (!retryable) return null;
+
+    const exception = this.toApiException(error);
+    if (!exception.isRetryable) return null;
+
+    const delay = computeBackoffDelay(attempt, policy.initialDelay, policy.maxDelay);
+    if (
+      policy.respectRetryAfter &&
+      exception instanceof ChatRateLimitedException &&
+      exception.retryAfter !== null
+    ) {
+      // Waiting longer than maxDelay would block the caller; let it fail instead
+      return exception.retryAfter > policy.maxDelay ? null : Math.max(delay, exception.retryAfter);
+    }
+    return delay;
+  }
+
+  /**
+   * Whether a request can be retried by default
+   *
+   * A POST that is repeated after its response was lost would apply twice, so
+   * only GETs, requests with an Idempotency-Key and requests marked idempotent
+   * qualify. Uploads are never retried by default.
+   */
+  private isRepeatable(request: ChatRequest, options: RequestOptions): boolean {
+    if (options.multipart) return false;
+    return request.method === 'GET' || !!options.idempotencyKey || !!options.idempotent;
+  }
+
+  /**
+   * Sign and send a single attempt of a request
+   *
+   * Signed again on every attempt so that each one gets a fresh timestamp and nonce.
+   */
+  private async send(request: ChatRequest, options: RequestOptions): Promise<AxiosResponse> {
+    const { method, path } = request;
+    const body =
+      options.multipart || request.data === undefined
+        ? request.data
+        : JSON.stringify(request.data);
+    const { 'X-Chat-Signature': signature, ...signatureHeaders } =
+      await this.getSignatureHeaders(method, path, typeof body === 'string' ? body : '');
+    const headers = { ...request.headers, ...signatureHeaders };
+    const params = { ...request.params };
+    if (method === 'GET') {
+      params.sig = signature;
+    } else {
+      headers['X-Chat-Signature'] = signature;
+    }
+
+    return await this.client.request({
+      method,
+      url: path,
+      params,
+      data: body,
+      headers,
+      signal: options.signal,
+      onUploadProgress: options.onUploadProgress,
+    });
+  }
+
+  /**
+   * Pass a response to middleware observers
+   */
+  private async notifyResponse(middlewares: ChatMiddleware[], response: ChatResponse): Promise<void> {
+    for (const middleware of middlewares) {
+      try {
+        await middleware.onResponse?.(response);
+      } catch (e) {
+        this.logger.warn('Middleware error', { path: response.request.path, error: e });
+      }
+    }
+  }
+
+  /**
+   * Log a failed call and convert its error into the exception to throw
+   */
+  private handleError(error: unknown, description: string): ChatException {
+    if (error instanceof RequestCancelledException) {
+      this.logger.info(`${description}: cancelled`);
+      return error;
+    }
+
+    this.handleAuthFailure(error);
+    const exception = this.toApiException(error);
+    this.logger.error(description, this.describeError(exception));
+    return exception;
+  }
+
+  /**
+   * Log fields for an error
+   *
+   * Validation messages can echo what the user typed (names, emails), so only
+   * the names of the invalid fields are logged for them.
    */
-  async getConfig(): Promise<ChatAppRemoteConfig> {
-    const signature = generateSignature(this.config.appKey, this.config.appSecret);
+  private describeError(exception: ChatApiException): Record<string, unknown> {
+    if (exception instanceof ChatValidationException) {
+      return {
+        error: exception.name,
+        statusCode: exception.statusCode,
+        invalidFields: Object.keys(exception.fieldErrors),
+      };
+    }
+    return { error: exception.message, statusCode: exception.statusCode };
+  }
 
-    this.log(`Getting config`);
+  /**
+   * Convert a request error into a typed exception
+   */
+  private toApiException(error: unknown): ChatApiException {
+    if (error instanceof ChatApiException) return error;
+    if (!axios.isAxiosError(error)) {
+      // Thrown locally (e.g. by a middleware): repeating the request will not help
+      return new ChatApiException(error instanceof Error ? error.message : String(error), 0, false);
+    }
+
+    const axiosError = error as AxiosError<Record<string, unknown>>;
+    const response = axiosError.response;
+    if (!response) {
+      if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+        return new ChatTimeoutException();
+      }
+      return new ChatNetworkException(axiosError.message || undefined);
+    }
+
+    const status = response.status;
+    const data = response.data && typeof response.data === 'object' ? response.data : {};
+    const fieldErrors = parseFieldErrors(data.errors);
+    const hasFieldErrors = Object.keys(fieldErrors).length > 0;
+
+    let message = `Request failed with status ${status}`;
+    if (data.error) {
+      message = String(data.error);
+    } else if (hasFieldErrors) {
+      message = Object.values(fieldErrors).flat().join(', ');
+    } else if (data.message) {
+      message = String(data.message);
+    }
+
+    if (status === 422 || (status === 400 && hasFieldErrors)) {
+      return new ChatValidationException(message, fieldErrors, status);
+    }
+    if (status === 401 || status === 403) {
+      return new ChatUnauthorizedException(message, status);
+    }
+    if (status === 429) {
+      return new ChatRateLimitedException(message, parseRetryAfter(response.headers?.['retry-after']));
+    }
+    if (status === 408) {
+      return new ChatTimeoutException(message, status);
+    }
+    if (status >= 500) {
+      return new ChatServerException(message, status);
+    }
+    return new ChatApiException(message, status);
+  }
+
+  /**
+   * Get chat app configuration
+   */
+  async getConfig(signal?: AbortSignal): Promise<ChatAppRemoteConfig> {
+    this.logger.debug('Getting config');
 
     try {
-      const response = await this.client.get('/config', {
-        params: {
-          key: this.config.appKey,
-          sig: signature,
-        },
-        headers: { Accept: 'application/json' },
+      const data = await this.request('GET', '/config', {
+        params: { key: this.config.appKey },
+        signal,
       });
 
-      this.log(`Config received: ${response.data.app_name}`);
-      return parseChatAppRemoteConfig(response.data);
+      this.logger.info('Config received', { appName: data.app_name });
+      const remoteConfig = parseChatAppRemoteConfig(data);
+      this.remoteUploadLimits = getUploadLimits(remoteConfig);
+      return remoteConfig;
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Config error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Config error');
     }
   }
 
   /**
    * Register a new browser/device
+   *
+   * @param idempotencyKey - Sent as Idempotency-Key so retries never register twice (default: generated)
    */
   async registerBrowser(
     userData: Record<string, unknown>,
-    endpoint?: string
+    endpoint?: string,
+    idempotencyKey: string = generateId('register-'),
+    signal?: AbortSignal
   ): Promise<RegistrationResponse> {
-    this.log('Registering browser');
+    this.logger.debug('Registering browser', { userData });
 
     try {
-      const response = await this.client.post(
-        '/register-browser',
-        {
+      const data = await this.request('POST', '/register-browser', {
+        data: {
           chat_app_key: this.config.appKey,
           user_data: userData,
           endpoint,
         },
-        { headers: this.getHeaders() }
-      );
+        idempotencyKey,
+        signal,
+      });
 
-      this.log(`Browser registered: ${response.data.browser_key}`);
-      return parseRegistrationResponse(response.data);
+      this.logger.info('Browser registered', { browserKey: data.browser_key });
+      return parseRegistrationResponse(data);
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Registration error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Registration error');
     }
   }
 
@@ -192,28 +580,26 @@ export class ChatApiService {
    */
   async updateBrowser(
     browserKey: string,
-    userData: Record<string, unknown>
+    userData: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<RegistrationResponse> {
-    this.log(`Updating browser: ${browserKey}`);
+    this.logger.debug('Updating browser', { browserKey, userData });
 
     try {
-      const response = await this.client.post(
-        '/browser/update',
-        {
+      const data = await this.request('POST', '/browser/update', {
+        data: {
           chat_app_key: this.config.appKey,
           browser_key: browserKey,
           user_data: userData,
         },
-        { headers: this.getHeaders() }
-      );
+        idempotent: true,
+        signal,
+      });
 
-      this.log('Browser updated');
-      return parseRegistrationResponse(response.data);
+      this.logger.info('Browser updated');
+      return parseRegistrationResponse(data);
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Update error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Update error');
     }
   }
 
@@ -222,41 +608,45 @@ export class ChatApiService {
    */
   async updateUserData(
     browserKey: string,
-    data: Record<string, unknown>
+    data: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<UpdateUserDataResponse> {
-    this.log(`Updating user data for browser: ${browserKey}`);
+    this.logger.debug('Updating user data', { browserKey, fields: Object.keys(data) });
 
     try {
-      const response = await this.client.post(
-        '/browser/update-data',
-        {
+      const result = await this.request('POST', '/browser/update-data', {
+        data: {
           chat_app_key: this.config.appKey,
           browser_key: browserKey,
           data,
         },
-        { headers: this.getHeaders() }
-      );
+        idempotent: true,
+        signal,
+      });
 
-      this.log('User data updated');
-      return parseUpdateUserDataResponse(response.data);
+      this.logger.info('User data updated');
+      return parseUpdateUserDataResponse(result);
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Update user data error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Update user data error');
     }
   }
 
   /**
    * Send a message
+   *
+   * @param idempotencyKey - Sent as Idempotency-Key so retries never duplicate the message (default: generated)
+   * @param replyToId - Id of the message this one replies to
    */
   async sendMessage(
     browserKey: string,
     message: string,
     endpoint?: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    idempotencyKey: string = generateId('message-'),
+    signal?: AbortSignal,
+    replyToId?: number
   ): Promise<SendMessageResponse> {
-    this.log('Sending message');
+    this.logger.debug('Sending message', { replyToId });
 
     try {
       const body: Record<string, unknown> = {
@@ -270,17 +660,20 @@ export class ChatApiService {
         body.metadata = metadata;
       }
 
-      const response = await this.client.post('/send-message', body, {
-        headers: this.getHeaders(),
+      if (replyToId !== undefined) {
+        body.reply_to_id = replyToId;
+      }
+
+      const data = await this.request('POST', '/send-message', {
+        data: body,
+        idempotencyKey,
+        signal,
       });
 
-      this.log(`Message sent: ${response.data.user_message_id}`);
-      return parseSendMessageResponse(response.data);
+      this.logger.info('Message sent', { messageId: data.user_message_id });
+      return parseSendMessageResponse(data);
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Send error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Send error');
     }
   }
 
@@ -290,29 +683,143 @@ export class ChatApiService {
   async editMessage(
     browserKey: string,
     messageId: number,
-    content: string
+    content: string,
+    signal?: AbortSignal
   ): Promise<EditMessageResponse> {
-    this.log(`Editing message: ${messageId}`);
+    this.logger.debug('Editing message', { messageId });
 
     try {
-      const response = await this.client.post(
-        '/edit-message',
-        {
+      const data = await this.request('POST', '/edit-message', {
+        data: {
           chat_app_key: this.config.appKey,
           browser_key: browserKey,
           message_id: messageId,
           content,
         },
-        { headers: this.getHeaders() }
-      );
+        idempotent: true,
+        signal,
+      });
+
+      this.logger.info('Message edited', { messageId });
+      return parseEditMessageResponse(data);
+    } catch (error) {
+      throw this.handleError(error, 'Edit error');
+    }
+  }
+
+  /**
+   * Delete (unsend) one of our own messages
+   */
+  async deleteMessage(
+    browserKey: string,
+    messageId: number,
+    signal?: AbortSignal
+  ): Promise<DeleteMessageResponse> {
+    this.logger.debug('Deleting message', { messageId });
+
+    try {
+      const data = await this.request('POST', '/delete-message', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          message_id: messageId,
+        },
+        idempotencyKey: `delete-${messageId}`,
+        signal,
+      });
+
+      this.logger.info('Message deleted', { messageId });
+      return parseDeleteMessageResponse(data, messageId);
+    } catch (error) {
+      throw this.handleError(error, 'Delete error');
+    }
+  }
+
+  /**
+   * Add an emoji reaction to a message
+   */
+  async addReaction(
+    browserKey: string,
+    messageId: number,
+    emoji: string,
+    signal?: AbortSignal
+  ): Promise<ReactionResponse> {
+    this.logger.debug('Adding reaction', { messageId, emoji });
+
+    try {
+      const data = await this.request('POST', '/add-reaction', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          message_id: messageId,
+          emoji,
+        },
+        idempotencyKey: generateId('reaction-add-'),
+        signal,
+      });
 
-      this.log(`Message edited: ${messageId}`);
-      return parseEditMessageResponse(response.data);
+      this.logger.info('Reaction added', { messageId, emoji });
+      return parseReactionResponse(data, messageId);
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Edit error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Reaction error');
+    }
+  }
+
+  /**
+   * Remove this user's emoji reaction from a message
+   */
+  async removeReaction(
+    browserKey: string,
+    messageId: number,
+    emoji: string,
+    signal?: AbortSignal
+  ): Promise<ReactionResponse> {
+    this.logger.debug('Removing reaction', { messageId, emoji });
+
+    try {
+      const data = await this.request('POST', '/remove-reaction', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          message_id: messageId,
+          emoji,
+        },
+        idempotencyKey: generateId('reaction-remove-'),
+        signal,
+      });
+
+      this.logger.info('Reaction removed', { messageId, emoji });
+      return parseReactionResponse(data, messageId);
+    } catch (error) {
+      throw this.handleError(error, 'Reaction error');
+    }
+  }
+
+  /**
+   * Mark incoming messages up to and including a message as read
+   */
+  async markAsRead(
+    browserKey: string,
+    upToMessageId: number,
+    signal?: AbortSignal
+  ): Promise<MarkAsReadResponse> {
+    this.logger.debug('Marking messages as read', { upToMessageId });
+
+    try {
+      const data = await this.request('POST', '/messages/read', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          up_to_message_id: upToMessageId,
+        },
+        idempotent: true,
+        signal,
+      });
+
+      this.logger.info('Messages marked as read', { upToMessageId });
+      return parseMarkAsReadResponse(data, upToMessageId);
+    } catch (error) {
+      throw this.handleError(error, 'Mark as read error');
     }
   }
 
@@ -322,52 +829,306 @@ export class ChatApiService {
   async getMessages(
     browserKey: string,
     page = 1,
-    perPage = 20
+    perPage = 20,
+    signal?: AbortSignal
   ): Promise<PaginatedMessages> {
-    this.log(`Getting messages (page: ${page}, perPage: ${perPage})`);
+    this.logger.debug('Getting messages', { page, perPage });
 
     try {
-      const response = await this.client.post(
-        '/messages',
-        {
+      const data = await this.request('POST', '/messages', {
+        data: {
           chat_app_key: this.config.appKey,
           browser_key: browserKey,
           page,
           per_page: perPage,
         },
-        { headers: this.getHeaders() }
-      );
+        idempotent: true,
+        signal,
+      });
 
-      const paginatedMessages = parsePaginatedMessages(response.data);
-      this.log(
-        `Received ${paginatedMessages.messages.length} messages (page ${paginatedMessages.currentPage}/${paginatedMessages.lastPage})`
-      );
+      const paginatedMessages = parsePaginatedMessages(data);
+      this.logger.debug('Messages received', {
+        count: paginatedMessages.messages.length,
+        page: paginatedMessages.currentPage,
+        lastPage: paginatedMessages.lastPage,
+      });
       return paginatedMessages;
     } catch (error) {
-      const message = this.parseError(error);
-      this.log(`Messages error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Messages error');
+    }
+  }
+
+  /**
+   * Get a single message by id (e.g. the target of a reply outside the loaded pages)
+   */
+  async getMessage(
+    browserKey: string,
+    messageId: number,
+    signal?: AbortSignal
+  ): Promise<ChatMessage> {
+    this.logger.debug('Getting message', { messageId });
+
+    try {
+      const data = await this.request('POST', '/message', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          message_id: messageId,
+        },
+        idempotent: true,
+        signal,
+      });
+
+      const message = (data.message as Record<string, unknown> | undefined) ?? data;
+      return parseChatMessage(message);
+    } catch (error) {
+      throw this.handleError(error, 'Message error');
     }
   }
 
   /**
    * Upload an image
+   *
+   * @param image - File URI or file descriptor (MIME type defaults to image/jpeg if unknown)
+   * @param cancelToken - CancelToken or AbortSignal
+   * @param idempotencyKey - Sent as Idempotency-Key; reuse it when retrying so the message is not sent twice
    */
   async uploadImage(
     browserKey: string,
-    imageUri: string,
+    image: string | UploadFile,
     endpoint?: string,
     onProgress?: SendProgressCallback,
-    cancelToken?: CancelToken
-  ): Promise<Record<string, unknown>> {
-    this.log(`Uploading image: ${imageUri}`);
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    const file = resolveUploadFile(image, this.mimeTypes, 'image/jpeg');
+    return this.upload(
+      '/upload-image',
+      'image',
+      browserKey,
+      file,
+      endpoint,
+      onProgress,
+      cancelToken,
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Upload a file of any allowed type
+   *
+   * @param file - File URI or file descriptor (the size is looked up if not given)
+   * @param cancelToken - CancelToken or AbortSignal
+   * @param idempotencyKey - Sent as Idempotency-Key; reuse it when retrying so the message is not sent twice
+   */
+  async uploadFile(
+    browserKey: string,
+    file: string | UploadFile,
+    endpoint?: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    const resolved = resolveUploadFile(file, this.mimeTypes);
+    return this.upload(
+      '/upload-file',
+      'file',
+      browserKey,
+      resolved,
+      endpoint,
+      onProgress,
+      cancelToken,
+      idempotencyKey
+    );
+  }
+
+  /**
+   * Start a chunked upload
+   *
+   * The file is checked against the upload limits before anything is sent.
+   *
+   * @param idempotencyKey - Sent as Idempotency-Key so retries never start a second session (default: generated)
+   */
+  async initChunkedUpload(
+    browserKey: string,
+    kind: UploadKind,
+    file: ResolvedUploadFile & { size: number },
+    chunkSize: number,
+    endpoint?: string,
+    signal?: AbortSignal,
+    idempotencyKey: string = generateId('upload-init-')
+  ): Promise<ChunkedUploadStatusResponse> {
+    this.logger.debug('Starting chunked upload', { kind, type: file.type, size: file.size });
+
+    try {
+      validateUploadFile(file, this.uploadLimits);
+
+      const data = await this.request('POST', '/upload/init', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          type: kind,
+          file_name: file.name,
+          mime_type: file.type,
+          file_size: file.size,
+          chunk_size: chunkSize,
+          endpoint,
+          metadata: getUploadMetadata(file),
+        },
+        idempotencyKey,
+        signal,
+      });
+
+      const response = parseChunkedUploadStatusResponse(data);
+      this.logger.info('Chunked upload started', { uploadId: response.uploadId });
+      return response;
+    } catch (error) {
+      throw this.handleError(error, 'Chunked upload init error');
+    }
+  }
+
+  /**
+   * Get the chunks the server has received for a chunked upload
+   */
+  async getChunkedUploadStatus(
+    browserKey: string,
+    uploadId: string,
+    signal?: AbortSignal
+  ): Promise<ChunkedUploadStatusResponse> {
+    this.logger.debug('Getting chunked upload status', { uploadId });
+
+    try {
+      const data = await this.request('POST', '/upload/status', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          upload_id: uploadId,
+        },
+        idempotent: true,
+        signal,
+      });
+
+      return parseChunkedUploadStatusResponse(data);
+    } catch (error) {
+      throw this.handleError(error, 'Chunked upload status error');
+    }
+  }
+
+  /**
+   * Upload a single chunk of a chunked upload
+   *
+   * Not retried here; the chunked upload service retries failed chunks.
+   */
+  async uploadChunk(
+    browserKey: string,
+    uploadId: string,
+    index: number,
+    chunk: Blob,
+    onProgress?: SendProgressCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    try {
+      const formData = new FormData();
+      formData.append('chat_app_key', this.config.appKey);
+      formData.append('browser_key', browserKey);
+      formData.append('upload_id', uploadId);
+      formData.append('chunk_index', String(index));
+      formData.append('chunk', chunk);
+
+      await this.request('POST', '/upload/chunk', {
+        data: formData,
+        multipart: true,
+        signal,
+        onUploadProgress: onProgress
+          ? (progressEvent: AxiosProgressEvent) => {
+              onProgress(progressEvent.loaded ?? 0, progressEvent.total ?? chunk.size);
+            }
+          : undefined,
+      });
+    } catch (error) {
+      throw this.handleError(error, 'Chunk upload error');
+    }
+  }
+
+  /**
+   * Finish a chunked upload and send the file as a message
+   */
+  async completeChunkedUpload(
+    browserKey: string,
+    uploadId: string,
+    signal?: AbortSignal
+  ): Promise<UploadResponse> {
+    this.logger.debug('Completing chunked upload', { uploadId });
+
+    try {
+      const data = await this.request('POST', '/upload/complete', {
+        data: {
+          chat_app_key: this.config.appKey,
+          browser_key: browserKey,
+          upload_id: uploadId,
+        },
+        idempotencyKey: `complete-${uploadId}`,
+        signal,
+      });
+
+      const response = parseUploadResponse(data);
+      this.logger.info('File uploaded', { url: response.url });
+      return response;
+    } catch (error) {
+      throw this.handleError(error, 'Chunked upload complete error');
+    }
+  }
+
+  /**
+   * Upload limits in effect (config options over remote config settings)
+   */
+  get uploadLimits(): UploadLimits {
+    const options = this.config.upload ?? {};
+    return {
+      maxFileSize: options.maxFileSize ?? this.remoteUploadLimits.maxFileSize,
+      allowedTypes: options.allowedTypes ?? this.remoteUploadLimits.allowedTypes,
+    };
+  }
+
+  /**
+   * Validate and post a file as multipart form data
+   */
+  private async upload(
+    path: string,
+    field: string,
+    browserKey: string,
+    file: ResolvedUploadFile,
+    endpoint?: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    this.logger.debug('Uploading file', { path, type: file.type, size: file.size });
+
+    const signal = cancelToken instanceof CancelToken ? cancelToken.signal : cancelToken;
 
     // Check if already cancelled
-    if (cancelToken?.isCancelled) {
+    if (signal?.aborted) {
       throw new UploadCancelledException();
     }
 
+    const limits = this.uploadLimits;
+    if (limits.maxFileSize !== undefined && file.size === undefined) {
+      // Without a size the limit could not be enforced before sending
+      const size = await lookupFileSize(file.uri);
+      if (size !== undefined) {
+        file = { ...file, size };
+      } else {
+        this.logger.warn('File size unknown, skipping the local size check', { path });
+      }
+    }
+
+    try {
+      validateUploadFile(file, limits);
+    } catch (error) {
+      throw this.handleError(error, 'Upload rejected');
+    }
+
     try {
       // Create form data
       const formData = new FormData();
@@ -377,35 +1138,23 @@ export class ChatApiService {
         formData.append('endpoint', endpoint);
       }
 
-      // Extract filename from URI
-      const uriParts = imageUri.split('/');
-      const fileName = uriParts[uriParts.length - 1];
-
-      // Determine mime type
-      const extension = fileName.split('.').pop()?.toLowerCase() ?? 'jpg';
-      const mimeTypes: Record<string, string> = {
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        png: 'image/png',
-        gif: 'image/gif',
-        webp: 'image/webp',
-        bmp: 'image/bmp',
-      };
-      const mimeType = mimeTypes[extension] ?? 'image/jpeg';
+      const metadata = getUploadMetadata(file);
+      if (Object.keys(metadata).length > 0) {
+        formData.append('metadata', JSON.stringify(metadata));
+      }
 
       // Append file - React Native style
-      formData.append('image', {
-        uri: imageUri,
-        name: fileName,
-        type: mimeType,
+      formData.append(field, {
+        uri: file.uri,
+        name: file.name,
+        type: file.type,
       } as unknown as Blob);
 
-      const response = await this.client.post('/upload-image', formData, {
-        headers: {
-          ...this.getHeaders(false),
-          'Content-Type': 'multipart/form-data',
-        },
-        cancelToken: cancelToken?.axiosToken,
+      const data = await this.request('POST', path, {
+        data: formData,
+        multipart: true,
+        idempotencyKey,
+        signal,
         onUploadProgress: onProgress
           ? (progressEvent: AxiosProgressEvent) => {
               const total = progressEvent.total ?? 0;
@@ -415,35 +1164,18 @@ export class ChatApiService {
           : undefined,
       });
 
-      this.log(`Image uploaded: ${response.data.image_url}`);
-      return response.data;
+      const response = parseUploadResponse(data);
+      this.logger.info('File uploaded', { url: response.url });
+      return response;
     } catch (error) {
-      if (axios.isCancel(error)) {
-        this.log('Upload cancelled');
+      if (error instanceof RequestCancelledException) {
+        this.logger.info('Upload cancelled');
         throw new UploadCancelledException();
       }
-      const message = this.parseError(error);
-      this.log(`Upload error: ${message}`);
-      const statusCode = axios.isAxiosError(error) ? error.response?.status ?? 0 : 0;
-      throw new ChatApiException(message, statusCode);
+      throw this.handleError(error, 'Upload error');
     }
   }
 
-  /**
-   * Upload a file
-   */
-  async uploadFile(
-    browserKey: string,
-    fileUri: string,
-    endpoint?: string,
-    onProgress?: SendProgressCallback,
-    cancelToken?: CancelToken
-  ): Promise<Record<string, unknown>> {
-    // For now, use the same endpoint as image upload
-    // Backend can be extended to support generic file uploads
-    return this.uploadImage(browserKey, fileUri, endpoint, onProgress, cancelToken);
-  }
-
   /**
    * Dispose the service
    */
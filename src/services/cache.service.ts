@@ -0,0 +1,127 @@
+import {
+  ChatMessage,
+  ChatStorageAdapter,
+  isLocalMessage,
+  mergeMessages,
+  parseChatMessage,
+  serializeChatMessage,
+} from '../types';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+
+const MESSAGES_PREFIX = 'fcrm_chat_messages_';
+
+/**
+ * Persistent per-browser-key message cache
+ *
+ * Only messages confirmed by the server are cached; local (optimistic)
+ * messages are kept by the outbox instead. Writes are serialized so that
+ * concurrent updates never overwrite each other.
+ */
+export class ChatMessageCacheService {
+  private appKey: string;
+  private adapter: ChatStorageAdapter;
+  private maxMessages: number;
+  private logger: ScopedLogger;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    appKey: string,
+    adapter: ChatStorageAdapter,
+    maxMessages = 100,
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.appKey = appKey;
+    this.adapter = adapter;
+    this.maxMessages = maxMessages;
+    this.logger = logger;
+  }
+
+  /**
+   * Get storage key for a browser key's messages
+   */
+  private storageKey(browserKey: string): string {
+    return `${MESSAGES_PREFIX}${this.appKey}_${browserKey}`;
+  }
+
+  /**
+   * Run a write after all pending writes
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(write).catch((e) => {
+      // A failed cache write must not break the chat
+      this.logger.warn('Message cache write failed', { error: e });
+    });
+    return this.writeQueue;
+  }
+
+  /**
+   * Read cached messages without waiting for pending writes
+   */
+  private async read(browserKey: string): Promise<ChatMessage[]> {
+    const data = await this.adapter.getItem(this.storageKey(browserKey));
+    if (data) {
+      try {
+        const messages = JSON.parse(data) as Record<string, unknown>[];
+        return Array.isArray(messages) ? messages.map(parseChatMessage) : [];
+      } catch (e) {
+        this.logger.warn('Discarding unreadable message cache', { error: e });
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Get cached messages (newest first)
+   */
+  async getMessages(browserKey: string): Promise<ChatMessage[]> {
+    await this.writeQueue;
+    return await this.read(browserKey);
+  }
+
+  /**
+   * Merge messages into the cache, keeping at most maxMessages (newest)
+   */
+  async addMessages(browserKey: string, messages: ChatMessage[]): Promise<void> {
+    const confirmed = messages.filter((m) => !isLocalMessage(m));
+    if (confirmed.length === 0) return;
+
+    await this.enqueueWrite(async () => {
+      const cached = await this.read(browserKey);
+      const merged = mergeMessages(cached, confirmed).slice(0, this.maxMessages);
+      await this.adapter.setItem(
+        this.storageKey(browserKey),
+        JSON.stringify(merged.map(serializeChatMessage))
+      );
+    });
+  }
+
+  /**
+   * Transform the cached messages (e.g. to apply a read receipt)
+   *
+   * Nothing is written if the transform returns the same array.
+   */
+  async update(
+    browserKey: string,
+    transform: (messages: ChatMessage[]) => ChatMessage[]
+  ): Promise<void> {
+    await this.enqueueWrite(async () => {
+      const cached = await this.read(browserKey);
+      const updated = transform(cached);
+      if (updated === cached) return;
+      await this.adapter.setItem(
+        this.storageKey(browserKey),
+        JSON.stringify(updated.map(serializeChatMessage))
+      );
+    });
+  }
+
+  /**
+   * Clear cached messages for a browser key
+   */
+  async clear(browserKey: string): Promise<void> {
+    await this.enqueueWrite(async () => {
+      await this.adapter.removeItem(this.storageKey(browserKey));
+    });
+  }
+}
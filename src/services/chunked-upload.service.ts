@@ -0,0 +1,363 @@
+import {
+  ChatChunkedUploadOptions,
+  ChunkReader,
+  SendProgressCallback,
+  UploadFile,
+  UploadKind,
+  UploadResponse,
+  UploadSession,
+} from '../types';
+import {
+  ChatApiException,
+  ChatException,
+  ChatRateLimitedException,
+  RequestCancelledException,
+  UploadCancelledException,
+} from '../utils/errors';
+import { computeBackoffDelay, wait } from '../utils/backoff';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+import { createFetchChunkReader, resolveUploadFile } from '../utils/upload';
+import { ChatApiService, CancelToken } from './api.service';
+import { ChatStorageService } from './storage.service';
+
+const MAX_CHUNK_RETRY_DELAY = 30000;
+
+/**
+ * Resumable chunked uploads (init / upload chunks / complete)
+ *
+ * Upload sessions are persisted after every chunk, so an interrupted upload
+ * (cancelled, failed or killed with the app) continues with the first missing
+ * chunk when it is resumed. Failed chunks are retried with exponential backoff.
+ */
+export class ChatChunkedUploadService {
+  private api: ChatApiService;
+  private storage: ChatStorageService;
+  private enabled: boolean;
+  private threshold: number;
+  private chunkSize: number;
+  private maxChunkAttempts: number;
+  private retryDelay: number;
+  private readChunk: ChunkReader;
+  private logger: ScopedLogger;
+
+  private sessions: UploadSession[] = [];
+  /** Ids of the sessions currently uploading */
+  private active: Set<string> = new Set();
+
+  constructor(
+    api: ChatApiService,
+    storage: ChatStorageService,
+    options?: ChatChunkedUploadOptions,
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.api = api;
+    this.storage = storage;
+    this.enabled = options !== undefined && options.enabled !== false;
+    this.threshold = options?.threshold ?? 5 * 1024 * 1024;
+    this.chunkSize = options?.chunkSize ?? 1024 * 1024;
+    this.maxChunkAttempts = options?.maxChunkAttempts ?? 3;
+    this.retryDelay = options?.retryDelay ?? 1000;
+    this.readChunk = options?.readChunk ?? createFetchChunkReader();
+    this.logger = logger;
+  }
+
+  /**
+   * Whether a file should be uploaded in chunks
+   *
+   * Only files with a known size at or above the threshold are chunked.
+   */
+  shouldChunk(file: string | UploadFile): boolean {
+    return (
+      this.enabled &&
+      typeof file !== 'string' &&
+      file.size !== undefined &&
+      file.size >= this.threshold
+    );
+  }
+
+  /**
+   * Unfinished upload sessions (oldest first)
+   */
+  getSessions(): UploadSession[] {
+    return [...this.sessions];
+  }
+
+  /**
+   * Load persisted sessions
+   */
+  async load(): Promise<void> {
+    const stored = await this.storage.getUploadSessions();
+    const storedIds = new Set(stored.map((session) => session.id));
+    this.sessions = [...stored, ...this.sessions.filter((s) => !storedIds.has(s.id))];
+    this.logger.debug('Upload sessions loaded', { count: stored.length });
+  }
+
+  /**
+   * Upload a file in chunks
+   *
+   * An unfinished session for the same file is resumed instead of starting over.
+   *
+   * @param cancelToken - CancelToken or AbortSignal; cancelling keeps the session for resuming
+   * @param idempotencyKey - Sent when starting the session, so a retry gets the same session back
+   */
+  async upload(
+    browserKey: string,
+    kind: UploadKind,
+    file: UploadFile,
+    endpoint?: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal,
+    idempotencyKey?: string
+  ): Promise<UploadResponse> {
+    const signal = cancelToken instanceof CancelToken ? cancelToken.signal : cancelToken;
+    const resolved = resolveUploadFile(
+      file,
+      this.api.mimeTypes,
+      kind === 'image' ? 'image/jpeg' : undefined
+    );
+    if (resolved.size === undefined) {
+      throw new ChatException('File size is required for chunked uploads');
+    }
+    const size = resolved.size;
+
+    const existing = this.sessions.find(
+      (s) => s.kind === kind && s.uri === resolved.uri && s.size === size && s.endpoint === endpoint
+    );
+    if (existing) {
+      return this.resume(browserKey, existing.id, onProgress, signal);
+    }
+
+    const init = await this.withCancellation(() =>
+      this.api.initChunkedUpload(
+        browserKey,
+        kind,
+        { ...resolved, size },
+        this.chunkSize,
+        endpoint,
+        signal,
+        idempotencyKey
+      )
+    );
+    const chunkSize = init.chunkSize ?? this.chunkSize;
+    const session: UploadSession = {
+      id: init.uploadId,
+      kind,
+      uri: resolved.uri,
+      name: resolved.name,
+      type: resolved.type,
+      size,
+      endpoint,
+      chunkSize,
+      totalChunks: Math.max(1, Math.ceil(size / chunkSize)),
+      uploadedChunks: init.uploadedChunks,
+      createdAt: new Date(),
+    };
+    this.sessions = [...this.sessions, session];
+    await this.persist();
+
+    return this.run(browserKey, session, onProgress, signal);
+  }
+
+  /**
+   * Resume an unfinished upload session
+   *
+   * The server's list of received chunks is fetched first, so chunks uploaded
+   * just before an interruption are not sent twice.
+   */
+  async resume(
+    browserKey: string,
+    id: string,
+    onProgress?: SendProgressCallback,
+    cancelToken?: CancelToken | AbortSignal
+  ): Promise<UploadResponse> {
+    const signal = cancelToken instanceof CancelToken ? cancelToken.signal : cancelToken;
+    const session = this.sessions.find((s) => s.id === id);
+    if (!session) {
+      throw new ChatException(`Upload session ${id} not found`);
+    }
+    if (this.active.has(id)) {
+      throw new ChatException(`Upload session ${id} is already uploading`);
+    }
+
+    try {
+      const status = await this.withCancellation(() =>
+        this.api.getChunkedUploadStatus(browserKey, id, signal)
+      );
+      const uploadedChunks = [...new Set([...session.uploadedChunks, ...status.uploadedChunks])];
+      this.updateSession(id, { uploadedChunks });
+    } catch (e) {
+      if (e instanceof ChatApiException && e.statusCode === 404) {
+        // Expired on the server: the file has to be uploaded again
+        this.logger.warn('Upload session expired', { uploadId: id });
+        await this.discard(id);
+      }
+      throw e;
+    }
+
+    this.logger.info('Resuming chunked upload', { uploadId: id });
+    const updated = this.sessions.find((s) => s.id === id) as UploadSession;
+    return this.run(browserKey, updated, onProgress, signal);
+  }
+
+  /**
+   * Forget an unfinished upload session
+   */
+  async discard(id: string): Promise<void> {
+    this.sessions = this.sessions.filter((s) => s.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Remove all sessions (in memory only; persisted sessions are cleared by the storage service)
+   */
+  clear(): void {
+    this.sessions = [];
+  }
+
+  /**
+   * Upload the missing chunks of a session and complete it
+   */
+  private async run(
+    browserKey: string,
+    session: UploadSession,
+    onProgress?: SendProgressCallback,
+    signal?: AbortSignal
+  ): Promise<UploadResponse> {
+    this.active.add(session.id);
+
+    try {
+      const uploaded = new Set(session.uploadedChunks);
+      let sentBytes = 0;
+      uploaded.forEach((index) => {
+        sentBytes += this.chunkLength(session, index);
+      });
+      onProgress?.(sentBytes, session.size);
+
+      for (let index = 0; index < session.totalChunks; index++) {
+        if (uploaded.has(index)) continue;
+
+        const start = index * session.chunkSize;
+        const chunk = await this.read(session, start, start + this.chunkLength(session, index));
+        const baseBytes = sentBytes;
+        await this.uploadChunk(browserKey, session, index, chunk, signal, (loaded) =>
+          onProgress?.(baseBytes + Math.min(loaded, chunk.size), session.size)
+        );
+
+        uploaded.add(index);
+        sentBytes += chunk.size;
+        this.updateSession(session.id, { uploadedChunks: [...uploaded] });
+        await this.persist();
+        onProgress?.(sentBytes, session.size);
+      }
+
+      const response = await this.withCancellation(() =>
+        this.api.completeChunkedUpload(browserKey, session.id, signal)
+      );
+      this.sessions = this.sessions.filter((s) => s.id !== session.id);
+      await this.persist();
+      return response;
+    } finally {
+      this.active.delete(session.id);
+    }
+  }
+
+  /**
+   * Upload one chunk, retrying retryable failures with backoff
+   */
+  private async uploadChunk(
+    browserKey: string,
+    session: UploadSession,
+    index: number,
+    chunk: Blob,
+    signal: AbortSignal | undefined,
+    onProgress: SendProgressCallback
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.withCancellation(() =>
+          this.api.uploadChunk(browserKey, session.id, index, chunk, onProgress, signal)
+        );
+        return;
+      } catch (e) {
+        const retryable =
+          e instanceof ChatApiException && e.isRetryable && attempt < this.maxChunkAttempts;
+        if (!retryable) throw e;
+
+        let delay = computeBackoffDelay(attempt, this.retryDelay, MAX_CHUNK_RETRY_DELAY);
+        if (e instanceof ChatRateLimitedException && e.retryAfter !== null) {
+          delay = Math.max(delay, e.retryAfter);
+        }
+        this.logger.warn('Chunk upload failed, retrying', {
+          uploadId: session.id,
+          index,
+          attempt,
+          delay,
+        });
+        await wait(delay, signal);
+        if (signal?.aborted) throw new UploadCancelledException();
+      }
+    }
+  }
+
+  /**
+   * Read a byte range of the session's file
+   */
+  private async read(session: UploadSession, start: number, end: number): Promise<Blob> {
+    try {
+      const file = { uri: session.uri, name: session.name, type: session.type };
+      return await this.readChunk(file, start, end);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      this.logger.error('Error reading upload chunk', { uploadId: session.id, error: message });
+      throw new ChatException(`Could not read ${session.name}: ${message}`);
+    }
+  }
+
+  /**
+   * Run an API call, reporting cancellation as an upload cancellation
+   */
+  private async withCancellation<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (e) {
+      if (e instanceof RequestCancelledException && !(e instanceof UploadCancelledException)) {
+        throw new UploadCancelledException();
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Length in bytes of a chunk
+   */
+  private chunkLength(session: UploadSession, index: number): number {
+    const start = index * session.chunkSize;
+    return Math.max(0, Math.min(session.chunkSize, session.size - start));
+  }
+
+  /**
+   * Update a session in place
+   */
+  private updateSession(id: string, changes: Partial<UploadSession>): void {
+    this.sessions = this.sessions.map((s) => (s.id === id ? { ...s, ...changes } : s));
+  }
+
+  /**
+   * Persist sessions
+   */
+  private async persist(): Promise<void> {
+    try {
+      await this.storage.saveUploadSessions(this.sessions);
+    } catch (e) {
+      this.logger.error('Error persisting upload sessions', { error: e });
+    }
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.sessions = [];
+    this.active.clear();
+  }
+}
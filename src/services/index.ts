@@ -1,9 +1,40 @@
 export { ChatStorageService } from './storage.service';
+export { ChatMessageCacheService } from './cache.service';
+export { ChatSyncService, type MessagePageFetcher } from './sync.service';
+export {
+  AsyncStorageAdapter,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+} from './storage.adapters';
 export { ChatApiService, CancelToken } from './api.service';
 export {
   ChatSocketService,
   type ConnectionChangeCallback,
+  type ConnectionStateCallback,
   type MessageCallback,
   type TypingCallback,
   type BrowserKeyUpdateCallback,
+  type AuthErrorCallback,
+  type ParticipantCallback,
+  type ReadReceiptCallback,
+  type MessageDeletedCallback,
+  type MessageReactionCallback,
 } from './socket.service';
+export {
+  ChatOutboxService,
+  type OutboxSender,
+  type OutboxChangeCallback,
+  type OutboxSentCallback,
+  type OutboxFailedCallback,
+  type OutboxEnqueueOptions,
+} from './outbox.service';
+export { ChatChunkedUploadService } from './chunked-upload.service';
+export {
+  ChatUploadQueueService,
+  type UploadSender,
+  type UploadQueueChangeCallback,
+  type UploadCompletedCallback,
+  type UploadFailedCallback,
+} from './upload-queue.service';
+export { ChatUnreadService, type UnreadCountCallback } from './unread.service';
+export { ChatLifecycleService, type LifecycleHandlers } from './lifecycle.service';
@@ -0,0 +1,118 @@
+import { AppStateSource, AppStateSubscription } from '../types';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+
+/**
+ * Lifecycle transition handlers
+ */
+export interface LifecycleHandlers {
+  /** Called when the app stayed in background for the whole grace period */
+  onSuspend: () => void;
+  /**
+   * Called when the app returns to the foreground
+   * @param wasSuspended - Whether onSuspend was called while in background
+   */
+  onResume: (wasSuspended: boolean) => void;
+}
+
+/**
+ * Follows the app state and suspends/resumes the chat connection
+ *
+ * Going to background starts a grace period; the connection is only suspended
+ * if the app is still in background when it expires. Transient states such as
+ * iOS 'inactive' are ignored.
+ */
+export class ChatLifecycleService {
+  private appState: AppStateSource;
+  private handlers: LifecycleHandlers;
+  private gracePeriod: number;
+  private logger: ScopedLogger;
+
+  private subscription: AppStateSubscription | null = null;
+  private suspendTimer: ReturnType<typeof setTimeout> | null = null;
+  private isInBackground = false;
+  private isSuspended = false;
+
+  constructor(
+    appState: AppStateSource,
+    handlers: LifecycleHandlers,
+    gracePeriod = 30000,
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.appState = appState;
+    this.handlers = handlers;
+    this.gracePeriod = gracePeriod;
+    this.logger = logger;
+  }
+
+  /**
+   * Whether the connection is currently suspended
+   */
+  get suspended(): boolean {
+    return this.isSuspended;
+  }
+
+  /**
+   * Start following app state changes
+   */
+  start(): void {
+    if (this.subscription) return;
+
+    this.subscription = this.appState.addEventListener('change', (state) => {
+      this.handleStateChange(state);
+    });
+
+    if (this.appState.currentState === 'background') {
+      this.handleStateChange('background');
+    }
+  }
+
+  /**
+   * Stop following app state changes
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+    this.clearSuspendTimer();
+    this.isInBackground = false;
+    this.isSuspended = false;
+  }
+
+  /**
+   * Handle an app state change
+   */
+  private handleStateChange(state: string): void {
+    if (state === 'active') {
+      if (!this.isInBackground) return;
+
+      const wasSuspended = this.isSuspended;
+      this.clearSuspendTimer();
+      this.isInBackground = false;
+      this.isSuspended = false;
+      this.logger.debug('App in foreground', { wasSuspended });
+      this.handlers.onResume(wasSuspended);
+      return;
+    }
+
+    if (state === 'background' && !this.isInBackground) {
+      this.isInBackground = true;
+      this.logger.debug('App in background', { suspendInMs: this.gracePeriod });
+
+      this.suspendTimer = setTimeout(() => {
+        this.suspendTimer = null;
+        this.isSuspended = true;
+        this.logger.info('Connection suspended');
+        this.handlers.onSuspend();
+      }, this.gracePeriod);
+    }
+  }
+
+  /**
+   * Cancel the pending suspension
+   */
+  private clearSuspendTimer(): void {
+    if (this.suspendTimer) {
+      clearTimeout(this.suspendTimer);
+      this.suspendTimer = null;
+    }
+  }
+}
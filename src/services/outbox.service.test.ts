@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxItem, SendMessageResponse } from '../types';
+import { ChatApiException, ChatNetworkException } from '../utils/errors';
+import { ChatOutboxService } from './outbox.service';
+import { MemoryStorageAdapter } from './storage.adapters';
+import { ChatStorageService } from './storage.service';
+
+const response = (id: number): SendMessageResponse => ({
+  success: true,
+  userMessageId: id,
+  chatId: 1,
+  aiAgentEnabled: false,
+});
+
+/**
+ * Sender whose calls resolve only when released by the test
+ */
+function createDeferredSender() {
+  const pending: Array<{ item: OutboxItem; resolve: (r: SendMessageResponse) => void }> = [];
+  const sender = vi.fn(
+    (item: OutboxItem) =>
+      new Promise<SendMessageResponse>((resolve) => {
+        pending.push({ item, resolve });
+      })
+  );
+  return { sender, pending };
+}
+
+describe('ChatOutboxService', () => {
+  let storage: ChatStorageService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = new ChatStorageService('app', new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends queued items in order and persists the remaining queue', async () => {
+    const sent: string[] = [];
+    const outbox = new ChatOutboxService(storage, async (item) => {
+      sent.push(item.message);
+      return response(sent.length);
+    });
+
+    await outbox.enqueue('first');
+    await outbox.enqueue('second');
+    await outbox.flush();
+
+    expect(sent).toEqual(['first', 'second']);
+    expect(outbox.getItems()).toEqual([]);
+    expect(await storage.getOutbox()).toEqual([]);
+  });
+
+  it('sends an item queued while a flush is running', async () => {
+    const { sender, pending } = createDeferredSender();
+    const outbox = new ChatOutboxService(storage, sender);
+
+    await outbox.enqueue('first');
+    const flushing = outbox.flush();
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+
+    await outbox.enqueue('second');
+    pending[0].resolve(response(1));
+    await flushing;
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(pending.map((p) => p.item.message)).toEqual(['first', 'second']);
+    pending[1].resolve(response(2));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('stops the queue on a retryable failure and retries with backoff', async () => {
+    const sender = vi
+      .fn<(item: OutboxItem) => Promise<SendMessageResponse>>()
+      .mockRejectedValueOnce(new ChatNetworkException())
+      .mockResolvedValue(response(1));
+    const outbox = new ChatOutboxService(storage, sender, { retryDelay: 1000 });
+
+    await outbox.enqueue('first');
+    await outbox.enqueue('second');
+    await outbox.flush();
+
+    expect(sender).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems().map((item) => [item.message, item.status, item.attempts])).toEqual([
+      ['first', 'queued', 1],
+      ['second', 'queued', 0],
+    ]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sender).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sender.mock.calls.map(([item]) => item.message)).toEqual(['first', 'first', 'second']);
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('marks an item as failed on a non-retryable error and moves on', async () => {
+    const sender = vi
+      .fn<(item: OutboxItem) => Promise<SendMessageResponse>>()
+      .mockRejectedValueOnce(new ChatApiException('Bad request', 400))
+      .mockResolvedValue(response(1));
+    const onFailed = vi.fn();
+    const outbox = new ChatOutboxService(storage, sender);
+    outbox.onFailed(onFailed);
+
+    await outbox.enqueue('first');
+    await outbox.enqueue('second');
+    await outbox.flush();
+
+    expect(sender).toHaveBeenCalledTimes(2);
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ message: 'first', status: 'failed' }));
+    expect(outbox.getItems().map((item) => [item.message, item.status])).toEqual([['first', 'failed']]);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const sender = vi.fn().mockRejectedValue(new ChatNetworkException());
+    const outbox = new ChatOutboxService(storage, sender, { maxAttempts: 2, retryDelay: 10 });
+
+    await outbox.enqueue('first');
+    await outbox.flush();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sender).toHaveBeenCalledTimes(2);
+    expect(outbox.getItems()[0]).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('returns only newly restored items from load', async () => {
+    const previous = new ChatOutboxService(storage, vi.fn().mockRejectedValue(new ChatNetworkException()));
+    const stored = await previous.enqueue('stored');
+    previous.dispose();
+
+    const outbox = new ChatOutboxService(storage, vi.fn());
+    const restored = await outbox.load();
+    expect(restored.map((item) => item.id)).toEqual([stored.id]);
+
+    expect(await outbox.load()).toEqual([]);
+    expect(outbox.getItems().map((item) => item.id)).toEqual([stored.id]);
+  });
+});
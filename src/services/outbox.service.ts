@@ -0,0 +1,349 @@
+import { ChatOutboxOptions, OutboxItem, SendMessageResponse } from '../types';
+import { ChatApiException, ChatRateLimitedException } from '../utils/errors';
+import { computeBackoffDelay } from '../utils/backoff';
+import { generateId } from '../utils/id';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+import { ChatStorageService } from './storage.service';
+
+/**
+ * Function that sends an outbox item to the server
+ */
+export type OutboxSender = (item: OutboxItem) => Promise<SendMessageResponse>;
+
+/**
+ * Outbox change callback
+ */
+export type OutboxChangeCallback = (items: OutboxItem[]) => void;
+
+/**
+ * Outbox item sent callback
+ */
+export type OutboxSentCallback = (item: OutboxItem, response: SendMessageResponse) => void;
+
+/**
+ * Outbox item failed (gave up) callback
+ */
+export type OutboxFailedCallback = (item: OutboxItem) => void;
+
+/**
+ * Options for enqueueing a message
+ */
+export interface OutboxEnqueueOptions {
+  /** Item id (default: generated) */
+  id?: string;
+  /** Error of an attempt already made outside the outbox */
+  lastError?: string;
+  /** Id of the message this one replies to */
+  replyToId?: number;
+}
+
+/**
+ * Persistent outbox for text messages that could not be sent
+ *
+ * Items are sent in order. A retryable failure stops the queue and schedules
+ * the next attempt with exponential backoff; a non-retryable failure (or
+ * running out of attempts) marks the item as failed and moves on.
+ */
+export class ChatOutboxService {
+  private storage: ChatStorageService;
+  private sender: OutboxSender;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private logger: ScopedLogger;
+
+  private items: OutboxItem[] = [];
+  private isFlushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Event callbacks
+  private changeCallbacks: Set<OutboxChangeCallback> = new Set();
+  private sentCallbacks: Set<OutboxSentCallback> = new Set();
+  private failedCallbacks: Set<OutboxFailedCallback> = new Set();
+
+  constructor(
+    storage: ChatStorageService,
+    sender: OutboxSender,
+    options: ChatOutboxOptions = {},
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.storage = storage;
+    this.sender = sender;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelay = options.retryDelay ?? 2000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 60000;
+    this.logger = logger;
+  }
+
+  /**
+   * Whether an error is worth retrying (network failures, timeouts, throttling, server errors)
+   */
+  static isRetryableError(error: unknown): boolean {
+    return error instanceof ChatApiException && error.isRetryable;
+  }
+
+  /**
+   * Current outbox items (oldest first)
+   */
+  getItems(): OutboxItem[] {
+    return [...this.items];
+  }
+
+  /**
+   * Load persisted items (keeps items queued before loading)
+   * @returns Items restored from storage
+   */
+  async load(): Promise<OutboxItem[]> {
+    const stored = await this.storage.getOutbox();
+    const storedIds = new Set(stored.map((item) => item.id));
+    const known = new Set(this.items.map((item) => item.id));
+    this.items = [...stored, ...this.items.filter((item) => !storedIds.has(item.id))];
+    this.logger.debug('Outbox loaded', { count: stored.length });
+    this.notifyChange();
+    return stored.filter((item) => !known.has(item.id));
+  }
+
+  /**
+   * Add a message to the outbox
+   */
+  async enqueue(
+    message: string,
+    endpoint?: string,
+    metadata?: Record<string, unknown>,
+    options: OutboxEnqueueOptions = {}
+  ): Promise<OutboxItem> {
+    const { lastError, replyToId } = options;
+    const now = new Date();
+    const item: OutboxItem = {
+      id: options.id ?? generateId('outbox-'),
+      message,
+      endpoint,
+      metadata,
+      replyToId,
+      status: 'queued',
+      attempts: lastError ? 1 : 0,
+      createdAt: now,
+      nextAttemptAt: lastError
+        ? new Date(now.getTime() + computeBackoffDelay(1, this.retryDelay, this.maxRetryDelay))
+        : undefined,
+      lastError,
+    };
+
+    this.items = [...this.items, item];
+    this.logger.info('Message queued', { id: item.id });
+    await this.persist();
+    this.scheduleRetry();
+    return item;
+  }
+
+  /**
+   * Send queued items in order
+   *
+   * @param force - Ignore the backoff schedule (e.g. right after reconnecting)
+   */
+  async flush(force = false): Promise<void> {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+    this.clearRetryTimer();
+
+    try {
+      for (const item of this.getItems()) {
+        if (item.status !== 'queued') continue;
+        if (!force && item.nextAttemptAt && item.nextAttemptAt.getTime() > Date.now()) break;
+
+        const shouldContinue = await this.sendItem(item);
+        if (!shouldContinue) break;
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+
+    this.scheduleRetry();
+  }
+
+  /**
+   * Retry a failed (or queued) item immediately
+   */
+  async retry(id: string): Promise<void> {
+    const item = this.items.find((i) => i.id === id);
+    if (!item || item.status === 'sending') return;
+
+    this.updateItem(id, { status: 'queued', attempts: 0, nextAttemptAt: undefined });
+    await this.persist();
+    await this.flush(true);
+  }
+
+  /**
+   * Remove an item from the outbox
+   */
+  async remove(id: string): Promise<void> {
+    this.items = this.items.filter((item) => item.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Remove all items (in memory only; persisted items are cleared by the storage service)
+   */
+  clear(): void {
+    this.clearRetryTimer();
+    this.items = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Send a single item
+   * @returns Whether the queue should continue with the next item
+   */
+  private async sendItem(item: OutboxItem): Promise<boolean> {
+    const attempts = item.attempts + 1;
+    this.updateItem(item.id, { status: 'sending', attempts });
+    this.notifyChange();
+
+    try {
+      const response = await this.sender({ ...item, attempts });
+      this.items = this.items.filter((i) => i.id !== item.id);
+      this.logger.info('Queued message sent', { id: item.id, attempts });
+      await this.persist();
+      this.sentCallbacks.forEach((callback) => callback(item, response));
+      return true;
+    } catch (e) {
+      const lastError = e instanceof Error ? e.message : String(e);
+      const retryable = ChatOutboxService.isRetryableError(e) && attempts < this.maxAttempts;
+
+      this.updateItem(item.id, {
+        status: retryable ? 'queued' : 'failed',
+        lastError,
+        nextAttemptAt: retryable ? new Date(Date.now() + this.getRetryDelay(e, attempts)) : undefined,
+      });
+      const fields = { id: item.id, attempts, error: lastError };
+      if (retryable) {
+        this.logger.warn('Queued message failed, will retry', fields);
+      } else {
+        this.logger.error('Queued message failed, giving up', fields);
+      }
+      await this.persist();
+
+      if (!retryable) {
+        const failedItem = this.items.find((i) => i.id === item.id);
+        if (failedItem) {
+          this.failedCallbacks.forEach((callback) => callback(failedItem));
+        }
+      }
+
+      // A retryable failure usually means the network is down: keep the order
+      return !retryable;
+    }
+  }
+
+  /**
+   * Delay before the next attempt (backoff, or the server's Retry-After if longer)
+   */
+  private getRetryDelay(error: unknown, attempts: number): number {
+    const delay = computeBackoffDelay(attempts, this.retryDelay, this.maxRetryDelay);
+    if (error instanceof ChatRateLimitedException && error.retryAfter !== null) {
+      return Math.max(delay, error.retryAfter);
+    }
+    return delay;
+  }
+
+  /**
+   * Update an item in place
+   */
+  private updateItem(id: string, changes: Partial<OutboxItem>): void {
+    this.items = this.items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+  }
+
+  /**
+   * Persist items and notify listeners
+   */
+  private async persist(): Promise<void> {
+    this.notifyChange();
+    try {
+      await this.storage.saveOutbox(this.items);
+    } catch (e) {
+      this.logger.error('Error persisting outbox', { error: e });
+    }
+  }
+
+  /**
+   * Schedule the next automatic flush for the first queued item
+   *
+   * Items are sent in order, so the first queued item decides when the queue
+   * continues: at its backoff time, or right away if it has none (e.g. it was
+   * queued while a flush was running).
+   */
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+
+    const next = this.items.find((item) => item.status === 'queued');
+    if (!next) return;
+
+    const delay = next.nextAttemptAt ? Math.max(0, next.nextAttemptAt.getTime() - Date.now()) : 0;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  /**
+   * Cancel the scheduled flush
+   */
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Notify all change callbacks
+   */
+  private notifyChange(): void {
+    const items = this.getItems();
+    this.changeCallbacks.forEach((callback) => callback(items));
+  }
+
+  /**
+   * Subscribe to outbox changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: OutboxChangeCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => {
+      this.changeCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to items sent from the outbox
+   * @returns Unsubscribe function
+   */
+  onSent(callback: OutboxSentCallback): () => void {
+    this.sentCallbacks.add(callback);
+    return () => {
+      this.sentCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to items the outbox gave up on
+   * @returns Unsubscribe function
+   */
+  onFailed(callback: OutboxFailedCallback): () => void {
+    this.failedCallbacks.add(callback);
+    return () => {
+      this.failedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.clearRetryTimer();
+    this.items = [];
+    this.changeCallbacks.clear();
+    this.sentCallbacks.clear();
+    this.failedCallbacks.clear();
+  }
+}
@@ -1,11 +1,34 @@
 import { io, Socket } from 'socket.io-client';
-import { ChatMessage, parseSocketMessage } from '../types';
+import {
+  ChatMessage,
+  ChatReconnectionOptions,
+  ConnectionState,
+  createIdleConnectionState,
+  parseSocketMessage,
+  AuthErrorEvent,
+  ParticipantEvent,
+  ReadReceiptEvent,
+  MessageDeletedEvent,
+  MessageReactionEvent,
+  parseAuthErrorEvent,
+  parseMessageDeletedEvent,
+  parseMessageReactionEvent,
+  parseParticipantEvent,
+  parseReadReceiptEvent,
+} from '../types';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+import { ChatException } from '../utils/errors';
 
 /**
  * Connection change callback
  */
 export type ConnectionChangeCallback = (connected: boolean) => void;
 
+/**
+ * Connection state change callback
+ */
+export type ConnectionStateCallback = (state: ConnectionState) => void;
+
 /**
  * Message received callback
  */
@@ -21,22 +44,64 @@ export type TypingCallback = (isTyping: boolean) => void;
  */
 export type BrowserKeyUpdateCallback = (browserKey: string) => void;
 
+/**
+ * Authentication error callback
+ */
+export type AuthErrorCallback = (event: AuthErrorEvent) => void;
+
+/**
+ * Participant joined/left callback
+ */
+export type ParticipantCallback = (event: ParticipantEvent) => void;
+
+/**
+ * Read receipt callback
+ */
+export type ReadReceiptCallback = (event: ReadReceiptEvent) => void;
+
+/**
+ * Message deleted callback
+ */
+export type MessageDeletedCallback = (event: MessageDeletedEvent) => void;
+
+/**
+ * Message reaction callback
+ */
+export type MessageReactionCallback = (event: MessageReactionEvent) => void;
+
 /**
  * Socket.IO service for real-time chat messaging
  */
 export class ChatSocketService {
   private socket: Socket | null = null;
   private currentBrowserKey: string | null = null;
-  private enableLogging: boolean;
+  private logger: ScopedLogger;
+  private reconnection: Required<ChatReconnectionOptions>;
+  private state: ConnectionState;
 
   // Event callbacks
   private connectionCallbacks: Set<ConnectionChangeCallback> = new Set();
+  private connectionStateCallbacks: Set<ConnectionStateCallback> = new Set();
   private messageCallbacks: Set<MessageCallback> = new Set();
   private typingCallbacks: Set<TypingCallback> = new Set();
   private browserKeyCallbacks: Set<BrowserKeyUpdateCallback> = new Set();
-
-  constructor(enableLogging = false) {
-    this.enableLogging = enableLogging;
+  private authErrorCallbacks: Set<AuthErrorCallback> = new Set();
+  private participantJoinedCallbacks: Set<ParticipantCallback> = new Set();
+  private participantLeftCallbacks: Set<ParticipantCallback> = new Set();
+  private readReceiptCallbacks: Set<ReadReceiptCallback> = new Set();
+  private messageDeletedCallbacks: Set<MessageDeletedCallback> = new Set();
+  private messageReactionCallbacks: Set<MessageReactionCallback> = new Set();
+
+  constructor(logger: ScopedLogger = noopLogger, reconnection: ChatReconnectionOptions = {}) {
+    this.logger = logger;
+    this.reconnection = {
+      enabled: reconnection.enabled ?? true,
+      maxAttempts: reconnection.maxAttempts ?? 5,
+      initialDelay: reconnection.initialDelay ?? 1000,
+      maxDelay: reconnection.maxDelay ?? 5000,
+      jitter: reconnection.jitter ?? 0.5,
+    };
+    this.state = createIdleConnectionState(this.maxAttempts);
   }
 
   /**
@@ -47,19 +112,25 @@ export class ChatSocketService {
   }
 
   /**
-   * Current browser key
+   * Current connection state
    */
-  get browserKey(): string | null {
-    return this.currentBrowserKey;
+  get connectionState(): ConnectionState {
+    return this.state;
   }
 
   /**
-   * Log message if logging is enabled
+   * Maximum reconnection attempts (null for infinite)
    */
-  private log(message: string): void {
-    if (this.enableLogging) {
-      console.log(`[FCRM Socket] ${message}`);
-    }
+  private get maxAttempts(): number | null {
+    if (!this.reconnection.enabled) return 0;
+    return Number.isFinite(this.reconnection.maxAttempts) ? this.reconnection.maxAttempts : null;
+  }
+
+  /**
+   * Current browser key
+   */
+  get browserKey(): string | null {
+    return this.currentBrowserKey;
   }
 
   /**
@@ -67,11 +138,20 @@ export class ChatSocketService {
    */
   connect(socketUrl: string, apiKey: string, browserKey?: string): void {
     if (this.socket?.connected) {
-      this.log('Already connected');
+      this.logger.debug('Already connected');
       return;
     }
 
-    this.log(`Connecting to: ${socketUrl}`);
+    // Tear down a dead socket (e.g. after giving up reconnecting) before creating a new one
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.io.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+
+    this.logger.info('Connecting', { url: socketUrl });
+    this.setConnectionState({ status: 'connecting', attempt: 0, lastError: null });
 
     const authData: Record<string, string> = {
       key: apiKey,
@@ -85,9 +165,11 @@ export class ChatSocketService {
     this.socket = io(socketUrl, {
       transports: ['websocket', 'polling'],
       autoConnect: true,
-      reconnection: true,
-      reconnectionAttempts: 5,
-      reconnectionDelay: 1000,
+      reconnection: this.reconnection.enabled,
+      reconnectionAttempts: this.reconnection.maxAttempts,
+      reconnectionDelay: this.reconnection.initialDelay,
+      reconnectionDelayMax: this.reconnection.maxDelay,
+      randomizationFactor: this.reconnection.jitter,
       timeout: 20000,
       auth: authData,
     });
@@ -103,7 +185,8 @@ export class ChatSocketService {
 
     // Connection established
     this.socket.on('connect', () => {
-      this.log(`Connected: ${this.socket?.id}`);
+      this.logger.info('Connected', { socketId: this.socket?.id });
+      this.setConnectionState({ status: 'connected', attempt: 0, lastError: null });
       this.notifyConnectionChange(true);
 
       // Join chat room if browser key exists
@@ -114,30 +197,54 @@ export class ChatSocketService {
 
     // Connection error
     this.socket.on('connect_error', (error) => {
-      this.log(`Connection error: ${error.message}`);
+      this.logger.warn('Connection error', { error });
+
+      if (this.socket && !this.socket.active) {
+        // Connection denied by the server (e.g. rejected API key): no automatic retry
+        this.setConnectionState({ status: 'unauthorized', lastError: error });
+      } else if (!this.reconnection.enabled) {
+        this.setConnectionState({ status: 'failed', lastError: error });
+      } else {
+        this.setConnectionState({ lastError: error });
+      }
       this.notifyConnectionChange(false);
     });
 
     // Disconnected
     this.socket.on('disconnect', (reason) => {
-      this.log(`Disconnected: ${reason}`);
+      this.logger.info('Disconnected', { reason });
+
+      if (reason === 'io client disconnect') {
+        this.setConnectionState({ status: 'idle', attempt: 0 });
+      } else if (reason === 'io server disconnect' || !this.reconnection.enabled) {
+        // Socket.IO does not reconnect after a server-side disconnect
+        this.setConnectionState({ status: 'failed', lastError: new Error(`Disconnected: ${reason}`) });
+      } else {
+        this.setConnectionState({ status: 'reconnecting', attempt: 0 });
+      }
       this.notifyConnectionChange(false);
     });
 
     // Reconnection attempt
     this.socket.io.on('reconnect_attempt', (attemptNumber) => {
-      this.log(`Reconnection attempt: ${attemptNumber}`);
+      this.logger.debug('Reconnection attempt', { attempt: attemptNumber });
+      this.setConnectionState({ status: 'reconnecting', attempt: attemptNumber });
     });
 
-    // Reconnected
-    this.socket.io.on('reconnect', (attemptNumber) => {
-      this.log(`Reconnected after ${attemptNumber} attempts`);
-      this.notifyConnectionChange(true);
+    // Reconnection attempt failed
+    this.socket.io.on('reconnect_error', (error) => {
+      this.setConnectionState({ lastError: error });
+    });
 
-      // Rejoin chat room
-      if (this.currentBrowserKey) {
-        this.joinChatRoom(this.currentBrowserKey);
-      }
+    // Gave up reconnecting
+    this.socket.io.on('reconnect_failed', () => {
+      this.logger.warn('Reconnection failed');
+      this.setConnectionState({ status: 'failed' });
+    });
+
+    // Reconnected (the socket's 'connect' event follows and notifies and rejoins the room)
+    this.socket.io.on('reconnect', (attemptNumber) => {
+      this.logger.info('Reconnected', { attempts: attemptNumber });
     });
 
     // Laravel broadcast messages (Chat App)
@@ -166,27 +273,64 @@ export class ChatSocketService {
       this.handleMessage(data, 'edited message');
     });
 
+    // Message deleted event
+    this.socket.on('App:Events:Chat:MessageDeletedEvent', (data: unknown) => {
+      this.handleMessageDeleted(data);
+    });
+
+    // Message deleted (legacy backslash format)
+    this.socket.on('App\\Events\\Chat\\MessageDeletedEvent', (data: unknown) => {
+      this.handleMessageDeleted(data);
+    });
+
+    // Reaction added or removed
+    this.socket.on('App:Events:Chat:MessageReactionEvent', (data: unknown) => {
+      this.handleMessageReaction(data);
+    });
+
+    // Reaction added or removed (legacy backslash format)
+    this.socket.on('App\\Events\\Chat\\MessageReactionEvent', (data: unknown) => {
+      this.handleMessageReaction(data);
+    });
+
+    // Messages read
+    this.socket.on('App:Events:Chat:MessagesReadEvent', (data: unknown) => {
+      this.handleReadReceipt(data);
+    });
+
+    // Messages read (legacy backslash format)
+    this.socket.on('App\\Events\\Chat\\MessagesReadEvent', (data: unknown) => {
+      this.handleReadReceipt(data);
+    });
+
     // Typing indicator
     this.socket.on('typing', (data: unknown) => {
       const isTyping =
         typeof data === 'object' && data !== null && (data as Record<string, unknown>).isTyping === true;
-      this.log(`Typing: ${isTyping}`);
+      this.logger.debug('Typing', { isTyping });
       this.notifyTyping(isTyping);
     });
 
     // User joined
     this.socket.on('user-joined', (data: unknown) => {
-      this.log(`User joined: ${JSON.stringify(data)}`);
+      const event = parseParticipantEvent(data);
+      // The id can be a browser key: log the participant type only
+      this.logger.debug('User joined', { type: event.type });
+      this.participantJoinedCallbacks.forEach((callback) => callback(event));
     });
 
     // User left
     this.socket.on('user-left', (data: unknown) => {
-      this.log(`User left: ${JSON.stringify(data)}`);
+      const event = parseParticipantEvent(data);
+      this.logger.debug('User left', { type: event.type });
+      this.participantLeftCallbacks.forEach((callback) => callback(event));
     });
 
     // Authentication error
     this.socket.on('auth-error', (data: unknown) => {
-      this.log(`Auth error: ${JSON.stringify(data)}`);
+      const event = parseAuthErrorEvent(data);
+      this.logger.error('Auth error', { code: event.code, reason: event.message });
+      this.handleAuthError(event);
     });
 
     // Browser key updated
@@ -194,7 +338,7 @@ export class ChatSocketService {
       if (typeof data === 'object' && data !== null) {
         const browserKey = (data as Record<string, unknown>).browser_key;
         if (typeof browserKey === 'string') {
-          this.log(`Browser key updated: ${browserKey}`);
+          this.logger.info('Browser key updated', { browserKey });
           this.currentBrowserKey = browserKey;
           this.notifyBrowserKeyUpdate(browserKey);
         }
@@ -202,18 +346,93 @@ export class ChatSocketService {
     });
   }
 
+  /**
+   * Handle an authentication error: stop reconnecting and report unauthorized
+   */
+  private handleAuthError(event: AuthErrorEvent): void {
+    const socket = this.socket;
+    if (socket) {
+      // Retrying with the same credentials would be rejected again
+      socket.io.reconnection(false);
+      socket.disconnect();
+    }
+
+    this.setConnectionState({
+      status: 'unauthorized',
+      attempt: 0,
+      lastError: new ChatException(event.message),
+    });
+    this.authErrorCallbacks.forEach((callback) => callback(event));
+  }
+
   /**
    * Handle incoming message
    */
   private handleMessage(data: unknown, format: string): void {
-    this.log(`Message received (${format}): ${JSON.stringify(data)}`);
     try {
       const messageData = typeof data === 'object' && data !== null ? data : { message: data };
       const socketMessage = parseSocketMessage(messageData as Record<string, unknown>);
+      this.logger.debug('Message received', {
+        format,
+        id: socketMessage.message.id,
+        type: socketMessage.message.type,
+      });
       this.notifyMessage(socketMessage.message);
     } catch (e) {
-      this.log(`Error parsing message: ${e}`);
+      this.logger.error('Error parsing message', { format, error: e });
+    }
+  }
+
+  /**
+   * Handle a deleted message
+   */
+  private handleMessageDeleted(data: unknown): void {
+    const event = parseMessageDeletedEvent(data);
+    if (event.messageId <= 0) {
+      this.logger.warn('Ignoring message deletion without message id');
+      return;
+    }
+    this.logger.debug('Message deleted', { messageId: event.messageId });
+    this.messageDeletedCallbacks.forEach((callback) => callback(event));
+  }
+
+  /**
+   * Handle a reaction change
+   */
+  private handleMessageReaction(data: unknown): void {
+    const event = parseMessageReactionEvent(data);
+    if (event.messageId <= 0 || event.emoji === '') {
+      this.logger.warn('Ignoring reaction without message id or emoji');
+      return;
+    }
+    this.logger.debug('Message reaction', {
+      messageId: event.messageId,
+      emoji: event.emoji,
+      action: event.action,
+    });
+    this.messageReactionCallbacks.forEach((callback) => callback(event));
+  }
+
+  /**
+   * Handle a read receipt
+   */
+  private handleReadReceipt(data: unknown): void {
+    const event = parseReadReceiptEvent(data);
+    if (event.messageId <= 0) {
+      this.logger.warn('Ignoring read receipt without message id');
+      return;
     }
+    this.logger.debug('Messages read', { messageId: event.messageId, readerType: event.readerType });
+    this.readReceiptCallbacks.forEach((callback) => callback(event));
+  }
+
+  /**
+   * Update the connection state and notify callbacks
+   */
+  private setConnectionState(changes: Partial<ConnectionState>): void {
+    this.state = { ...this.state, ...changes, maxAttempts: this.maxAttempts };
+    const state = this.state;
+    this.connectionStateCallbacks.forEach((callback) => callback(state));
   }
 
   /**
@@ -255,6 +474,17 @@ export class ChatSocketService {
     };
   }
 
+  /**
+   * Subscribe to connection state changes
+   * @returns Unsubscribe function
+   */
+  onConnectionStateChange(callback: ConnectionStateCallback): () => void {
+    this.connectionStateCallbacks.add(callback);
+    return () => {
+      this.connectionStateCallbacks.delete(callback);
+    };
+  }
+
   /**
    * Subscribe to incoming messages
    * @returns Unsubscribe function
@@ -288,12 +518,78 @@ export class ChatSocketService {
     };
   }
 
+  /**
+   * Subscribe to authentication errors
+   * @returns Unsubscribe function
+   */
+  onAuthError(callback: AuthErrorCallback): () => void {
+    this.authErrorCallbacks.add(callback);
+    return () => {
+      this.authErrorCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to participants joining the conversation
+   * @returns Unsubscribe function
+   */
+  onParticipantJoined(callback: ParticipantCallback): () => void {
+    this.participantJoinedCallbacks.add(callback);
+    return () => {
+      this.participantJoinedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to participants leaving the conversation
+   * @returns Unsubscribe function
+   */
+  onParticipantLeft(callback: ParticipantCallback): () => void {
+    this.participantLeftCallbacks.add(callback);
+    return () => {
+      this.participantLeftCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to deleted messages
+   * @returns Unsubscribe function
+   */
+  onMessageDeleted(callback: MessageDeletedCallback): () => void {
+    this.messageDeletedCallbacks.add(callback);
+    return () => {
+      this.messageDeletedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to reactions added or removed by any participant
+   * @returns Unsubscribe function
+   */
+  onMessageReaction(callback: MessageReactionCallback): () => void {
+    this.messageReactionCallbacks.add(callback);
+    return () => {
+      this.messageReactionCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to read receipts
+   * @returns Unsubscribe function
+   */
+  onReadReceipt(callback: ReadReceiptCallback): () => void {
+    this.readReceiptCallbacks.add(callback);
+    return () => {
+      this.readReceiptCallbacks.delete(callback);
+    };
+  }
+
   /**
    * Join a chat room
    */
   joinChatRoom(browserKey: string): void {
     if (!this.socket?.connected) {
-      this.log('Cannot join room - not connected');
+      this.logger.warn('Cannot join room - not connected');
       return;
     }
 
@@ -301,7 +597,7 @@ export class ChatSocketService {
     const roomName = `private-chat_${browserKey}`;
     this.socket.emit('join', roomName);
     this.currentBrowserKey = browserKey;
-    this.log(`Joined room: ${roomName}`);
+    this.logger.debug('Joined chat room', { browserKey });
   }
 
   /**
@@ -313,7 +609,7 @@ export class ChatSocketService {
     // Use underscore format to match backend channel naming
     const roomName = `private-chat_${browserKey}`;
     this.socket.emit('leave', roomName);
-    this.log(`Left room: ${roomName}`);
+    this.logger.debug('Left chat room', { browserKey });
   }
 
   /**
@@ -352,12 +648,12 @@ export class ChatSocketService {
    */
   subscribe(channel: string): void {
     if (!this.socket?.connected) {
-      this.log('Cannot subscribe - not connected');
+      this.logger.warn('Cannot subscribe - not connected', { channel });
       return;
     }
 
     this.socket.emit('join', channel);
-    this.log(`Subscribed to: ${channel}`);
+    this.logger.debug('Subscribed', { channel });
   }
 
   /**
@@ -367,7 +663,7 @@ export class ChatSocketService {
     if (!this.socket?.connected) return;
 
     this.socket.emit('leave', channel);
-    this.log(`Unsubscribed from: ${channel}`);
+    this.logger.debug('Unsubscribed', { channel });
   }
 
   /**
@@ -375,11 +671,16 @@ export class ChatSocketService {
    */
   disconnect(): void {
     if (this.socket) {
+      const wasConnected = this.socket.connected;
       this.socket.disconnect();
       this.socket = null;
       this.currentBrowserKey = null;
-      this.notifyConnectionChange(false);
-      this.log('Disconnected');
+      // A connected socket reports this through its 'disconnect' handler
+      if (!wasConnected) {
+        this.setConnectionState({ status: 'idle', attempt: 0 });
+        this.notifyConnectionChange(false);
+      }
+      this.logger.info('Disconnected by client');
     }
   }
 
@@ -389,8 +690,15 @@ export class ChatSocketService {
   dispose(): void {
     this.disconnect();
     this.connectionCallbacks.clear();
+    this.connectionStateCallbacks.clear();
     this.messageCallbacks.clear();
     this.typingCallbacks.clear();
     this.browserKeyCallbacks.clear();
+    this.authErrorCallbacks.clear();
+    this.participantJoinedCallbacks.clear();
+    this.participantLeftCallbacks.clear();
+    this.readReceiptCallbacks.clear();
+    this.messageDeletedCallbacks.clear();
+    this.messageReactionCallbacks.clear();
   }
 }
@@ -0,0 +1,141 @@
+import { ChatStorageAdapter } from '../types';
+import { ChatException } from '../utils/errors';
+
+type AsyncStorageStatic = typeof import('@react-native-async-storage/async-storage').default;
+
+let asyncStoragePromise: Promise<AsyncStorageStatic> | null = null;
+
+/**
+ * Load AsyncStorage on first use, so apps that pass another adapter do not need it installed
+ */
+function loadAsyncStorage(): Promise<AsyncStorageStatic> {
+  if (!asyncStoragePromise) {
+    asyncStoragePromise = import('@react-native-async-storage/async-storage')
+      .then((module) => (module.default ?? module) as AsyncStorageStatic)
+      .catch((e) => {
+        asyncStoragePromise = null;
+        const message = e instanceof Error ? e.message : String(e);
+        throw new ChatException(
+          `@react-native-async-storage/async-storage could not be loaded (${message}). ` +
+            'Install it or pass a `storage` adapter in the chat config.'
+        );
+      });
+  }
+  return asyncStoragePromise;
+}
+
+/**
+ * Storage adapter backed by @react-native-async-storage/async-storage (default)
+ *
+ * The package is an optional peer dependency and is only loaded when this
+ * adapter is used.
+ */
+export class AsyncStorageAdapter implements ChatStorageAdapter {
+  async getItem(key: string): Promise<string | null> {
+    const AsyncStorage = await loadAsyncStorage();
+    return await AsyncStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const AsyncStorage = await loadAsyncStorage();
+    await AsyncStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const AsyncStorage = await loadAsyncStorage();
+    await AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    const AsyncStorage = await loadAsyncStorage();
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries.map(([key, value]) => [key, value]);
+  }
+
+  async multiSet(entries: Array<[string, string]>): Promise<void> {
+    const AsyncStorage = await loadAsyncStorage();
+    await AsyncStorage.multiSet(entries);
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    const AsyncStorage = await loadAsyncStorage();
+    await AsyncStorage.multiRemove(keys);
+  }
+}
+
+/**
+ * In-memory storage adapter (not persisted, useful for tests and Node)
+ */
+export class MemoryStorageAdapter implements ChatStorageAdapter {
+  private items: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    return keys.map((key) => [key, this.items.get(key) ?? null]);
+  }
+
+  async multiSet(entries: Array<[string, string]>): Promise<void> {
+    entries.forEach(([key, value]) => this.items.set(key, value));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.items.delete(key));
+  }
+
+  /**
+   * Remove all stored items
+   */
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+/**
+ * Storage adapter backed by the Web Storage API (localStorage by default)
+ */
+export class LocalStorageAdapter implements ChatStorageAdapter {
+  private storage: Storage;
+
+  constructor(storage?: Storage) {
+    const resolved = storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+    if (!resolved) {
+      throw new ChatException('localStorage is not available in this environment');
+    }
+    this.storage = resolved;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<Array<[string, string | null]>> {
+    return keys.map((key) => [key, this.storage.getItem(key)]);
+  }
+
+  async multiSet(entries: Array<[string, string]>): Promise<void> {
+    entries.forEach(([key, value]) => this.storage.setItem(key, value));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.storage.removeItem(key));
+  }
+}
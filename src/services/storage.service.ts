@@ -1,16 +1,47 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ChatStorageAdapter,
+  OutboxItem,
+  UnreadState,
+  UploadSession,
+  parseOutboxItem,
+  parseUnreadState,
+  parseUploadSession,
+  serializeOutboxItem,
+  serializeUnreadState,
+  serializeUploadSession,
+} from '../types';
+import { AsyncStorageAdapter } from './storage.adapters';
+import { ScopedLogger, noopLogger } from '../utils/logger';
 
 const BROWSER_KEY_PREFIX = 'fcrm_chat_browser_';
 const USER_DATA_PREFIX = 'fcrm_chat_user_';
+const OUTBOX_PREFIX = 'fcrm_chat_outbox_';
+const UPLOADS_PREFIX = 'fcrm_chat_uploads_';
+const UNREAD_PREFIX = 'fcrm_chat_unread_';
 
 /**
- * Storage service for persisting chat data using AsyncStorage
+ * Storage service for persisting chat data through a pluggable storage adapter
  */
 export class ChatStorageService {
   private appKey: string;
+  private adapter: ChatStorageAdapter;
+  private logger: ScopedLogger;
 
-  constructor(appKey: string) {
+  constructor(
+    appKey: string,
+    adapter: ChatStorageAdapter = new AsyncStorageAdapter(),
+    logger: ScopedLogger = noopLogger
+  ) {
     this.appKey = appKey;
+    this.adapter = adapter;
+    this.logger = logger;
+  }
+
+  /**
+   * Underlying storage adapter
+   */
+  get storageAdapter(): ChatStorageAdapter {
+    return this.adapter;
   }
 
   /**
@@ -27,43 +58,65 @@ export class ChatStorageService {
     return `${USER_DATA_PREFIX}${this.appKey}`;
   }
 
+  /**
+   * Get storage key for the outbox
+   */
+  private get outboxStorageKey(): string {
+    return `${OUTBOX_PREFIX}${this.appKey}`;
+  }
+
+  /**
+   * Get storage key for chunked upload sessions
+   */
+  private get uploadsStorageKey(): string {
+    return `${UPLOADS_PREFIX}${this.appKey}`;
+  }
+
+  /**
+   * Get storage key for the unread state
+   */
+  private get unreadStorageKey(): string {
+    return `${UNREAD_PREFIX}${this.appKey}`;
+  }
+
   /**
    * Save browser key to storage
    */
   async saveBrowserKey(browserKey: string): Promise<void> {
-    await AsyncStorage.setItem(this.browserStorageKey, browserKey);
+    await this.adapter.setItem(this.browserStorageKey, browserKey);
   }
 
   /**
    * Get browser key from storage
    */
   async getBrowserKey(): Promise<string | null> {
-    return await AsyncStorage.getItem(this.browserStorageKey);
+    return await this.adapter.getItem(this.browserStorageKey);
   }
 
   /**
    * Clear browser key from storage
    */
   async clearBrowserKey(): Promise<void> {
-    await AsyncStorage.removeItem(this.browserStorageKey);
+    await this.adapter.removeItem(this.browserStorageKey);
   }
 
   /**
    * Save user data to storage
    */
   async saveUserData(userData: Record<string, unknown>): Promise<void> {
-    await AsyncStorage.setItem(this.userDataStorageKey, JSON.stringify(userData));
+    await this.adapter.setItem(this.userDataStorageKey, JSON.stringify(userData));
   }
 
   /**
    * Get user data from storage
    */
   async getUserData(): Promise<Record<string, unknown> | null> {
-    const data = await AsyncStorage.getItem(this.userDataStorageKey);
+    const data = await this.adapter.getItem(this.userDataStorageKey);
     if (data) {
       try {
         return JSON.parse(data) as Record<string, unknown>;
-      } catch {
+      } catch (e) {
+        this.logger.warn('Discarding unreadable user data', { error: e });
         return null;
       }
     }
@@ -74,7 +127,103 @@ export class ChatStorageService {
    * Clear user data from storage
    */
   async clearUserData(): Promise<void> {
-    await AsyncStorage.removeItem(this.userDataStorageKey);
+    await this.adapter.removeItem(this.userDataStorageKey);
+  }
+
+  /**
+   * Save outbox items to storage
+   */
+  async saveOutbox(items: OutboxItem[]): Promise<void> {
+    if (items.length === 0) {
+      await this.adapter.removeItem(this.outboxStorageKey);
+      return;
+    }
+    await this.adapter.setItem(this.outboxStorageKey, JSON.stringify(items.map(serializeOutboxItem)));
+  }
+
+  /**
+   * Get outbox items from storage
+   */
+  async getOutbox(): Promise<OutboxItem[]> {
+    const data = await this.adapter.getItem(this.outboxStorageKey);
+    if (data) {
+      try {
+        const items = JSON.parse(data) as Record<string, unknown>[];
+        return Array.isArray(items) ? items.map(parseOutboxItem) : [];
+      } catch (e) {
+        this.logger.warn('Discarding unreadable outbox', { error: e });
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Clear outbox from storage
+   */
+  async clearOutbox(): Promise<void> {
+    await this.adapter.removeItem(this.outboxStorageKey);
+  }
+
+  /**
+   * Save chunked upload sessions to storage
+   */
+  async saveUploadSessions(sessions: UploadSession[]): Promise<void> {
+    if (sessions.length === 0) {
+      await this.adapter.removeItem(this.uploadsStorageKey);
+      return;
+    }
+    await this.adapter.setItem(
+      this.uploadsStorageKey,
+      JSON.stringify(sessions.map(serializeUploadSession))
+    );
+  }
+
+  /**
+   * Get chunked upload sessions from storage
+   */
+  async getUploadSessions(): Promise<UploadSession[]> {
+    const data = await this.adapter.getItem(this.uploadsStorageKey);
+    if (data) {
+      try {
+        const sessions = JSON.parse(data) as Record<string, unknown>[];
+        return Array.isArray(sessions) ? sessions.map(parseUploadSession) : [];
+      } catch (e) {
+        this.logger.warn('Discarding unreadable upload sessions', { error: e });
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Clear chunked upload sessions from storage
+   */
+  async clearUploadSessions(): Promise<void> {
+    await this.adapter.removeItem(this.uploadsStorageKey);
+  }
+
+  /**
+   * Save unread state to storage
+   */
+  async saveUnreadState(state: UnreadState): Promise<void> {
+    await this.adapter.setItem(this.unreadStorageKey, JSON.stringify(serializeUnreadState(state)));
+  }
+
+  /**
+   * Get unread state from storage
+   */
+  async getUnreadState(): Promise<UnreadState | null> {
+    const data = await this.adapter.getItem(this.unreadStorageKey);
+    if (data) {
+      try {
+        return parseUnreadState(JSON.parse(data) as Record<string, unknown>);
+      } catch (e) {
+        this.logger.warn('Discarding unreadable unread state', { error: e });
+        return null;
+      }
+    }
+    return null;
   }
 
   /**
@@ -89,6 +238,17 @@ export class ChatStorageService {
    * Clear all stored data
    */
   async clearAll(): Promise<void> {
-    await Promise.all([this.clearBrowserKey(), this.clearUserData()]);
+    const keys = [
+      this.browserStorageKey,
+      this.userDataStorageKey,
+      this.outboxStorageKey,
+      this.uploadsStorageKey,
+      this.unreadStorageKey,
+    ];
+    if (this.adapter.multiRemove) {
+      await this.adapter.multiRemove(keys);
+    } else {
+      await Promise.all(keys.map((key) => this.adapter.removeItem(key)));
+    }
   }
 }
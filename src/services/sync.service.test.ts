@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ChatMessage, PaginatedMessages } from '../types';
+import { ChatSyncService } from './sync.service';
+
+function message(id: number, overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    chatId: 1,
+    content: `Message ${id}`,
+    type: 'admin',
+    createdAt: new Date(Date.UTC(2024, 0, 1, 10, id)),
+    isRead: false,
+    ...overrides,
+  };
+}
+
+function page(messages: ChatMessage[], hasMore = false): PaginatedMessages {
+  return {
+    messages,
+    total: messages.length,
+    currentPage: 1,
+    perPage: 50,
+    lastPage: 1,
+    hasMore,
+  };
+}
+
+describe('ChatSyncService', () => {
+  it('fetches nothing without a baseline', async () => {
+    const fetchPage = vi.fn();
+    const sync = new ChatSyncService(fetchPage);
+
+    expect(await sync.sync()).toEqual([]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('fetches messages newer than the newest known message', async () => {
+    const fetchPage = vi.fn().mockResolvedValue(page([message(7), message(6), message(5)]));
+    const sync = new ChatSyncService(fetchPage);
+    sync.track([message(5)]);
+
+    const missed = await sync.sync();
+
+    expect(missed.map((m) => m.id)).toEqual([6, 7]);
+    expect(sync.newestMessageId).toBe(7);
+  });
+
+  it('does not let own cached messages skip agent messages after a restart', async () => {
+    // Sent over REST while the socket was down: newer than the agent replies missed meanwhile
+    const ownSend = message(8, { type: 'user' });
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValue(page([ownSend, message(7), message(6), message(5)]));
+    const sync = new ChatSyncService(fetchPage);
+
+    // The cache does not keep clientIds, so the own message looks server-fetched
+    sync.seed([ownSend, message(5)]);
+    expect(sync.newestMessageId).toBe(5);
+
+    const missed = await sync.sync();
+    expect(missed.map((m) => m.id)).toEqual([6, 7, 8]);
+  });
+
+  it('follows pages until a known message is reached', async () => {
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce(page([message(9), message(8)], true))
+      .mockResolvedValueOnce(page([message(7), message(6)], true));
+    const sync = new ChatSyncService(fetchPage, { perPage: 2 });
+    sync.track([message(6)]);
+
+    const missed = await sync.sync();
+
+    expect(fetchPage.mock.calls).toEqual([
+      [1, 2, undefined],
+      [2, 2, undefined],
+    ]);
+    expect(missed.map((m) => m.id)).toEqual([7, 8, 9]);
+  });
+
+  it('shares a sync between callers without a signal', async () => {
+    const fetchPage = vi.fn().mockResolvedValue(page([message(6), message(5)]));
+    const sync = new ChatSyncService(fetchPage);
+    sync.track([message(5)]);
+
+    const [first, second] = await Promise.all([sync.sync(), sync.sync()]);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+  });
+
+  it('passes the signal to the page fetcher without sharing the request', async () => {
+    const fetchPage = vi.fn().mockResolvedValue(page([message(6), message(5)]));
+    const sync = new ChatSyncService(fetchPage);
+    sync.track([message(5)]);
+    const controller = new AbortController();
+
+    await Promise.all([sync.sync(), sync.sync(controller.signal)]);
+
+    expect(fetchPage.mock.calls).toEqual([
+      [1, 50, undefined],
+      [1, 50, controller.signal],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  ChatMessage,
+  ChatSyncOptions,
+  PaginatedMessages,
+  isIncomingMessage,
+  isLocalMessage,
+} from '../types';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+
+/**
+ * Function that fetches a page of messages (newest first)
+ */
+export type MessagePageFetcher = (
+  page: number,
+  perPage: number,
+  signal?: AbortSignal
+) => Promise<PaginatedMessages>;
+
+/**
+ * Tracks the newest known message and fetches the messages missed since then
+ *
+ * The messages endpoint has no "since" filter, so pages are fetched from the
+ * newest one until a known message is reached (bounded by maxPages).
+ */
+export class ChatSyncService {
+  private fetchPage: MessagePageFetcher;
+  private perPage: number;
+  private maxPages: number;
+  private logger: ScopedLogger;
+
+  private newestId = 0;
+  private pendingSync: Promise<ChatMessage[]> | null = null;
+
+  constructor(
+    fetchPage: MessagePageFetcher,
+    options: ChatSyncOptions = {},
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.fetchPage = fetchPage;
+    this.perPage = options.perPage ?? 50;
+    this.maxPages = options.maxPages ?? 5;
+    this.logger = logger;
+  }
+
+  /**
+   * Id of the newest known message (0 if none)
+   */
+  get newestMessageId(): number {
+    return this.newestId;
+  }
+
+  /**
+   * Record messages as known
+   */
+  track(messages: ChatMessage[]): void {
+    for (const message of messages) {
+      if (!isLocalMessage(message) && message.id > this.newestId) {
+        this.newestId = message.id;
+      }
+    }
+  }
+
+  /**
+   * Use cached messages as the baseline
+   *
+   * The cache does not keep clientIds, so our own sends cannot be told apart
+   * from server-fetched messages there. One sent over REST while the socket
+   * was down can be newer than agent messages missed in that window, so only
+   * incoming messages count.
+   */
+  seed(messages: ChatMessage[]): void {
+    this.track(messages.filter(isIncomingMessage));
+  }
+
+  /**
+   * Forget the newest known message
+   */
+  reset(): void {
+    this.newestId = 0;
+  }
+
+  /**
+   * Fetch messages newer than the newest known message
+   *
+   * Concurrent calls without a signal share the same request; a call with a
+   * signal fetches on its own, so aborting it never cancels another caller.
+   * @returns Missed messages (oldest first)
+   */
+  sync(signal?: AbortSignal): Promise<ChatMessage[]> {
+    if (signal) return this.fetchMissed(signal);
+
+    if (!this.pendingSync) {
+      this.pendingSync = this.fetchMissed().finally(() => {
+        this.pendingSync = null;
+      });
+    }
+    return this.pendingSync;
+  }
+
+  /**
+   * Fetch pages until a known message is reached
+   */
+  private async fetchMissed(signal?: AbortSignal): Promise<ChatMessage[]> {
+    // Without a baseline there is nothing to catch up on; history loading covers it
+    const baselineId = this.newestId;
+    if (baselineId === 0) return [];
+
+    this.logger.debug('Catching up', { afterMessageId: baselineId });
+
+    const missed: ChatMessage[] = [];
+    for (let page = 1; page <= this.maxPages; page++) {
+      const result = await this.fetchPage(page, this.perPage, signal);
+      const newer = result.messages.filter((m) => m.id > baselineId);
+      missed.push(...newer);
+
+      if (newer.length < result.messages.length || !result.hasMore) break;
+    }
+
+    this.track(missed);
+    this.logger.info('Caught up', { count: missed.length });
+    return missed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+}
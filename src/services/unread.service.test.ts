@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatMessage } from '../types';
+import { MemoryStorageAdapter } from './storage.adapters';
+import { ChatStorageService } from './storage.service';
+import { ChatUnreadService } from './unread.service';
+
+function message(id: number, overrides: Partial<ChatMessage> = {}): ChatMessage {
+  return {
+    id,
+    chatId: 1,
+    content: `Message ${id}`,
+    type: 'admin',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    isRead: false,
+    ...overrides,
+  };
+}
+
+describe('ChatUnreadService', () => {
+  let storage: ChatStorageService;
+  let unread: ChatUnreadService;
+
+  beforeEach(() => {
+    storage = new ChatStorageService('app', new MemoryStorageAdapter());
+    unread = new ChatUnreadService(storage);
+  });
+
+  it('counts unread admin and ai messages only', () => {
+    unread.track([
+      message(1),
+      message(2, { type: 'ai' }),
+      message(3, { type: 'user' }),
+      message(4, { type: 'system' }),
+      message(-1),
+    ]);
+
+    expect(unread.count).toBe(2);
+    expect(unread.latestUnreadMessageId).toBe(2);
+  });
+
+  it('counts a message seen twice once', () => {
+    const onChange = vi.fn();
+    unread.onChange(onChange);
+
+    unread.track([message(1)]);
+    unread.track([message(1), message(2)]);
+    unread.track([message(2)]);
+
+    expect(unread.count).toBe(2);
+    expect(onChange.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('stops counting messages read elsewhere, deleted or removed', () => {
+    unread.track([message(1), message(2), message(3)]);
+
+    unread.track([message(1, { isRead: true }), message(2, { deletedAt: new Date() })]);
+    expect(unread.count).toBe(1);
+
+    unread.remove(3);
+    expect(unread.count).toBe(0);
+  });
+
+  it('clears messages up to the read marker and ignores older ones', () => {
+    unread.track([message(1), message(2), message(3)]);
+
+    unread.markRead(2);
+    expect(unread.count).toBe(1);
+    expect(unread.lastReadMessageId).toBe(2);
+
+    unread.track([message(2)]);
+    unread.markRead(1);
+    expect(unread.count).toBe(1);
+    expect(unread.lastReadMessageId).toBe(2);
+  });
+
+  it('persists the state and merges it on load', async () => {
+    unread.track([message(1), message(2), message(3)]);
+    unread.markRead(1);
+    await vi.waitFor(async () => {
+      expect(await storage.getUnreadState()).toEqual({ lastReadMessageId: 1, unreadMessageIds: [2, 3] });
+    });
+
+    const restored = new ChatUnreadService(storage);
+    restored.track([message(3), message(4)]);
+    await restored.load();
+
+    expect(restored.count).toBe(3);
+    expect(restored.lastReadMessageId).toBe(1);
+  });
+
+  it('lets pending writes finish before the storage is cleared', async () => {
+    unread.track([message(1), message(2)]);
+    unread.markRead(1);
+
+    unread.clear();
+    await unread.flush();
+    await storage.clearAll();
+
+    expect(await storage.getUnreadState()).toBeNull();
+  });
+});
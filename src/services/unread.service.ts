@@ -0,0 +1,196 @@
+import {
+  ChatMessage,
+  UnreadState,
+  createEmptyUnreadState,
+  isLocalMessage,
+  isMessageDeleted,
+} from '../types';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+import { ChatStorageService } from './storage.service';
+
+/** Unread message ids kept at most (the oldest are dropped) */
+const MAX_UNREAD_IDS = 999;
+
+/**
+ * Unread count change callback
+ */
+export type UnreadCountCallback = (count: number) => void;
+
+/**
+ * Persistent unread counter for admin and AI messages
+ *
+ * Counts the unread admin/ai messages newer than the read marker. Ids are
+ * tracked rather than a plain number, so a message seen both over the socket
+ * and through history sync is only counted once.
+ */
+export class ChatUnreadService {
+  private storage: ChatStorageService;
+  private logger: ScopedLogger;
+
+  private state: UnreadState = createEmptyUnreadState();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Event callbacks
+  private changeCallbacks: Set<UnreadCountCallback> = new Set();
+
+  constructor(storage: ChatStorageService, logger: ScopedLogger = noopLogger) {
+    this.storage = storage;
+    this.logger = logger;
+  }
+
+  /**
+   * Number of unread admin/ai messages
+   */
+  get count(): number {
+    return this.state.unreadMessageIds.length;
+  }
+
+  /**
+   * Newest incoming message marked as read (0 if none)
+   */
+  get lastReadMessageId(): number {
+    return this.state.lastReadMessageId;
+  }
+
+  /**
+   * Id of the newest unread message, or null
+   */
+  get latestUnreadMessageId(): number | null {
+    const ids = this.state.unreadMessageIds;
+    return ids.length > 0 ? Math.max(...ids) : null;
+  }
+
+  /**
+   * Load the persisted state (merged with messages tracked before loading)
+   */
+  async load(): Promise<void> {
+    const stored = await this.storage.getUnreadState();
+    if (!stored) return;
+
+    const lastReadMessageId = Math.max(stored.lastReadMessageId, this.state.lastReadMessageId);
+    const ids = new Set([...stored.unreadMessageIds, ...this.state.unreadMessageIds]);
+    this.state = {
+      lastReadMessageId,
+      unreadMessageIds: [...ids].filter((id) => id > lastReadMessageId),
+    };
+    this.logger.debug('Unread state loaded', { count: this.count });
+    this.notifyChange();
+  }
+
+  /**
+   * Count unread admin/ai messages (from the socket, history or sync)
+   */
+  track(messages: ChatMessage[]): void {
+    const ids = new Set(this.state.unreadMessageIds);
+    let changed = false;
+
+    for (const message of messages) {
+      if (message.type !== 'admin' && message.type !== 'ai') continue;
+      if (isLocalMessage(message) || message.id <= this.state.lastReadMessageId) continue;
+
+      if (message.isRead || isMessageDeleted(message)) {
+        // Read elsewhere (e.g. on another device) or deleted
+        changed = ids.delete(message.id) || changed;
+      } else if (!ids.has(message.id)) {
+        ids.add(message.id);
+        changed = true;
+      }
+    }
+
+    if (!changed) return;
+    this.update({
+      ...this.state,
+      unreadMessageIds: [...ids].sort((a, b) => a - b).slice(-MAX_UNREAD_IDS),
+    });
+  }
+
+  /**
+   * Move the read marker, clearing messages up to and including a message
+   */
+  markRead(upToMessageId: number): void {
+    if (upToMessageId <= this.state.lastReadMessageId) return;
+
+    this.update({
+      lastReadMessageId: upToMessageId,
+      unreadMessageIds: this.state.unreadMessageIds.filter((id) => id > upToMessageId),
+    });
+  }
+
+  /**
+   * Stop counting a message (e.g. because it was deleted)
+   */
+  remove(messageId: number): void {
+    if (!this.state.unreadMessageIds.includes(messageId)) return;
+
+    this.update({
+      ...this.state,
+      unreadMessageIds: this.state.unreadMessageIds.filter((id) => id !== messageId),
+    });
+  }
+
+  /**
+   * Reset the counter (in memory only; the persisted state is cleared by the storage service)
+   */
+  clear(): void {
+    this.state = createEmptyUnreadState();
+    this.notifyChange();
+  }
+
+  /**
+   * Wait for pending writes of the persisted state
+   */
+  flush(): Promise<void> {
+    return this.writeQueue;
+  }
+
+  /**
+   * Replace the state, persist it and notify listeners
+   */
+  private update(state: UnreadState): void {
+    const previousCount = this.count;
+    this.state = state;
+    this.persist();
+    if (this.count !== previousCount) {
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Persist the state after all pending writes
+   */
+  private persist(): void {
+    const state = this.state;
+    this.writeQueue = this.writeQueue
+      .then(() => this.storage.saveUnreadState(state))
+      .catch((e) => {
+        this.logger.error('Error persisting unread state', { error: e });
+      });
+  }
+
+  /**
+   * Notify all change callbacks
+   */
+  private notifyChange(): void {
+    const count = this.count;
+    this.changeCallbacks.forEach((callback) => callback(count));
+  }
+
+  /**
+   * Subscribe to unread count changes
+   * @returns Unsubscribe function
+   */
+  onChange(callback: UnreadCountCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => {
+      this.changeCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.state = createEmptyUnreadState();
+    this.changeCallbacks.clear();
+  }
+}
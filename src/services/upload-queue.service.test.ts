@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadResponse } from '../types';
+import { ChatApiException, ChatNetworkException } from '../utils/errors';
+import { ChatUploadQueueService, UploadSender } from './upload-queue.service';
+
+const response: UploadResponse = {
+  success: true,
+  url: 'https://cdn.example.com/a.jpg',
+  imageUrl: 'https://cdn.example.com/a.jpg',
+  data: {},
+};
+
+describe('ChatUploadQueueService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries with the same idempotency key', async () => {
+    const sender = vi
+      .fn<UploadSender>()
+      .mockRejectedValueOnce(new ChatNetworkException())
+      .mockResolvedValue(response);
+    const queue = new ChatUploadQueueService(sender, { retryDelay: 10 });
+    const onCompleted = vi.fn();
+    queue.onCompleted(onCompleted);
+
+    const [item] = queue.enqueue('image', ['file:///tmp/a.jpg']);
+    await vi.advanceTimersByTimeAsync(10);
+
+    const keys = sender.mock.calls.map(([sent]) => sent.idempotencyKey);
+    expect(keys).toEqual([item.idempotencyKey, item.idempotencyKey]);
+    expect(onCompleted).toHaveBeenCalledWith(expect.objectContaining({ id: item.id }), response);
+  });
+
+  it('keeps the idempotency key when an item is retried by hand', async () => {
+    const sender = vi
+      .fn<UploadSender>()
+      .mockRejectedValueOnce(new ChatApiException('Bad request', 400))
+      .mockResolvedValue(response);
+    const queue = new ChatUploadQueueService(sender);
+
+    const [item] = queue.enqueue('file', [{ uri: 'file:///tmp/a.pdf' }]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getItems()[0].status).toBe('failed');
+
+    queue.retry(item.id);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const keys = sender.mock.calls.map(([sent]) => sent.idempotencyKey);
+    expect(keys).toEqual([item.idempotencyKey, item.idempotencyKey]);
+    expect(queue.getItems()[0].status).toBe('completed');
+  });
+
+  it('gives every item its own idempotency key', () => {
+    const queue = new ChatUploadQueueService(vi.fn<UploadSender>().mockResolvedValue(response));
+
+    const [first, second] = queue.enqueue('image', ['file:///tmp/a.jpg', 'file:///tmp/b.jpg']);
+
+    expect(first.idempotencyKey).not.toBe(second.idempotencyKey);
+  });
+});
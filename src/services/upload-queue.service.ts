@@ -0,0 +1,336 @@
+import {
+  ChatUploadQueueOptions,
+  SendProgressCallback,
+  UploadFile,
+  UploadItem,
+  UploadKind,
+  UploadResponse,
+} from '../types';
+import {
+  ChatApiException,
+  ChatRateLimitedException,
+  RequestCancelledException,
+} from '../utils/errors';
+import { computeBackoffDelay, wait } from '../utils/backoff';
+import { generateId } from '../utils/id';
+import { ScopedLogger, noopLogger } from '../utils/logger';
+
+/**
+ * Function that uploads a queue item
+ */
+export type UploadSender = (
+  item: UploadItem,
+  onProgress: SendProgressCallback,
+  signal: AbortSignal
+) => Promise<UploadResponse>;
+
+/**
+ * Upload queue change callback
+ */
+export type UploadQueueChangeCallback = (items: UploadItem[]) => void;
+
+/**
+ * Upload completed callback
+ */
+export type UploadCompletedCallback = (item: UploadItem, response: UploadResponse) => void;
+
+/**
+ * Upload failed (gave up) callback
+ */
+export type UploadFailedCallback = (item: UploadItem) => void;
+
+/**
+ * In-memory queue for uploading several attachments
+ *
+ * At most `concurrency` items upload at the same time, in the order they were
+ * added. Retryable failures are retried with exponential backoff; every
+ * attempt carries the item's idempotency key, so a retry after a lost response
+ * does not send the file twice. Every item can be cancelled, retried or
+ * removed on its own.
+ */
+export class ChatUploadQueueService {
+  private sender: UploadSender;
+  private concurrency: number;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private logger: ScopedLogger;
+
+  private items: UploadItem[] = [];
+  /** Abort controllers of the items currently uploading or waiting to retry */
+  private controllers: Map<string, AbortController> = new Map();
+
+  // Event callbacks
+  private changeCallbacks: Set<UploadQueueChangeCallback> = new Set();
+  private completedCallbacks: Set<UploadCompletedCallback> = new Set();
+  private failedCallbacks: Set<UploadFailedCallback> = new Set();
+
+  constructor(
+    sender: UploadSender,
+    options: ChatUploadQueueOptions = {},
+    logger: ScopedLogger = noopLogger
+  ) {
+    this.sender = sender;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 30000;
+    this.logger = logger;
+  }
+
+  /**
+   * Current queue items (oldest first)
+   */
+  getItems(): UploadItem[] {
+    return [...this.items];
+  }
+
+  /**
+   * Add files to the queue and start uploading
+   */
+  enqueue(kind: UploadKind, files: Array<string | UploadFile>, endpoint?: string): UploadItem[] {
+    const added = files.map<UploadItem>((file) => {
+      const upload = typeof file === 'string' ? { uri: file } : file;
+      const id = generateId('upload-');
+      return {
+        id,
+        kind,
+        file: upload,
+        endpoint,
+        status: 'queued',
+        sentBytes: 0,
+        totalBytes: upload.size ?? 0,
+        attempts: 0,
+        idempotencyKey: id,
+        createdAt: new Date(),
+      };
+    });
+
+    this.items = [...this.items, ...added];
+    this.logger.info('Uploads queued', { count: added.length });
+    this.notifyChange();
+    this.pump();
+    return added;
+  }
+
+  /**
+   * Cancel an item (queued, uploading or waiting to retry)
+   */
+  cancel(id: string): void {
+    const item = this.items.find((i) => i.id === id);
+    if (!item || !this.isPending(item)) return;
+
+    this.controllers.get(id)?.abort();
+    this.updateItem(id, { status: 'cancelled' });
+    this.logger.info('Upload cancelled', { id });
+    this.notifyChange();
+  }
+
+  /**
+   * Cancel all pending items
+   */
+  cancelAll(): void {
+    this.items.filter((item) => this.isPending(item)).forEach((item) => this.cancel(item.id));
+  }
+
+  /**
+   * Upload a failed or cancelled item again
+   */
+  retry(id: string): void {
+    const item = this.items.find((i) => i.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+
+    this.updateItem(id, { status: 'queued', attempts: 0, sentBytes: 0, error: undefined });
+    this.notifyChange();
+    this.pump();
+  }
+
+  /**
+   * Remove an item, cancelling it if still pending
+   */
+  remove(id: string): void {
+    this.controllers.get(id)?.abort();
+    this.items = this.items.filter((item) => item.id !== id);
+    this.notifyChange();
+  }
+
+  /**
+   * Remove completed items
+   */
+  clearCompleted(): void {
+    this.items = this.items.filter((item) => item.status !== 'completed');
+    this.notifyChange();
+  }
+
+  /**
+   * Remove all items, cancelling pending uploads
+   */
+  clear(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.items = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Whether an item has not finished yet
+   */
+  private isPending(item: UploadItem): boolean {
+    return item.status === 'queued' || item.status === 'uploading' || item.status === 'retrying';
+  }
+
+  /**
+   * Start queued items while there are free slots
+   */
+  private pump(): void {
+    const free = this.concurrency - this.controllers.size;
+    if (free <= 0) return;
+
+    this.items
+      .filter((item) => item.status === 'queued' && !this.controllers.has(item.id))
+      .slice(0, free)
+      .forEach((item) => {
+        const controller = new AbortController();
+        this.controllers.set(item.id, controller);
+        this.process(item.id, controller.signal).finally(() => {
+          this.controllers.delete(item.id);
+          this.pump();
+        });
+      });
+  }
+
+  /**
+   * Upload an item, retrying retryable failures
+   */
+  private async process(id: string, signal: AbortSignal): Promise<void> {
+    for (;;) {
+      const item = this.items.find((i) => i.id === id);
+      if (!item || signal.aborted) return;
+
+      const attempts = item.attempts + 1;
+      this.updateItem(id, { status: 'uploading', attempts, sentBytes: 0 });
+      this.notifyChange();
+
+      try {
+        const response = await this.sender(
+          { ...item, attempts },
+          (sent, total) => {
+            if (signal.aborted) return;
+            this.updateItem(id, { sentBytes: sent, totalBytes: total || item.totalBytes });
+            this.notifyChange();
+          },
+          signal
+        );
+        if (signal.aborted) return;
+
+        this.updateItem(id, { status: 'completed', response, error: undefined });
+        const completed = this.items.find((i) => i.id === id);
+        this.logger.info('Upload completed', { id, attempts });
+        this.notifyChange();
+        if (completed) {
+          this.completedCallbacks.forEach((callback) => callback(completed, response));
+        }
+        return;
+      } catch (e) {
+        if (signal.aborted || e instanceof RequestCancelledException) {
+          if (!signal.aborted) {
+            // Cancelled through the sender rather than the queue
+            this.updateItem(id, { status: 'cancelled' });
+            this.notifyChange();
+          }
+          return;
+        }
+
+        const error = e instanceof Error ? e.message : String(e);
+        const retryable =
+          e instanceof ChatApiException && e.isRetryable && attempts < this.maxAttempts;
+        if (!retryable) {
+          this.updateItem(id, { status: 'failed', error });
+          this.logger.error('Upload failed, giving up', { id, attempts, error });
+          this.notifyChange();
+          const failed = this.items.find((i) => i.id === id);
+          if (failed) {
+            this.failedCallbacks.forEach((callback) => callback(failed));
+          }
+          return;
+        }
+
+        this.updateItem(id, { status: 'retrying', error });
+        this.logger.warn('Upload failed, will retry', { id, attempts, error });
+        this.notifyChange();
+        await wait(this.getRetryDelay(e, attempts), signal);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt (backoff, or the server's Retry-After if longer)
+   */
+  private getRetryDelay(error: unknown, attempts: number): number {
+    const delay = computeBackoffDelay(attempts, this.retryDelay, this.maxRetryDelay);
+    if (error instanceof ChatRateLimitedException && error.retryAfter !== null) {
+      return Math.max(delay, error.retryAfter);
+    }
+    return delay;
+  }
+
+  /**
+   * Update an item in place
+   */
+  private updateItem(id: string, changes: Partial<UploadItem>): void {
+    this.items = this.items.map((item) => (item.id === id ? { ...item, ...changes } : item));
+  }
+
+  /**
+   * Notify all change callbacks
+   */
+  private notifyChange(): void {
+    const items = this.getItems();
+    this.changeCallbacks.forEach((callback) => callback(items));
+  }
+
+  /**
+   * Subscribe to queue changes (including progress)
+   * @returns Unsubscribe function
+   */
+  onChange(callback: UploadQueueChangeCallback): () => void {
+    this.changeCallbacks.add(callback);
+    return () => {
+      this.changeCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to completed uploads
+   * @returns Unsubscribe function
+   */
+  onCompleted(callback: UploadCompletedCallback): () => void {
+    this.completedCallbacks.add(callback);
+    return () => {
+      this.completedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Subscribe to uploads the queue gave up on
+   * @returns Unsubscribe function
+   */
+  onFailed(callback: UploadFailedCallback): () => void {
+    this.failedCallbacks.add(callback);
+    return () => {
+      this.failedCallbacks.delete(callback);
+    };
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.items = [];
+    this.changeCallbacks.clear();
+    this.completedCallbacks.clear();
+    this.failedCallbacks.clear();
+  }
+}
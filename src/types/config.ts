@@ -1,3 +1,14 @@
+import type { ChatStorageAdapter, ChatMessageCacheOptions } from './storage';
+import type { ChatOutboxOptions } from './outbox';
+import type { ChatReconnectionOptions } from './connection';
+import type { ChatSyncOptions } from './sync';
+import type { ChatLifecycleOptions } from './lifecycle';
+import type { ChatSigner } from './signer';
+import type { ChatMiddleware } from './middleware';
+import type { ChatLogger, LogLevel } from './logger';
+import type { ChatRetryOptions } from './retry';
+import type { ChatUploadOptions } from './upload';
+
 /**
  * Configuration for FCRM Chat SDK
  */
@@ -8,14 +19,50 @@ export interface ChatConfig {
   companyToken: string;
   /** Chat App key provided in FCRM dashboard */
   appKey: string;
-  /** Chat App secret provided in FCRM dashboard */
-  appSecret: string;
+  /**
+   * Chat App secret provided in FCRM dashboard
+   *
+   * Used by the default signer. Shipping it in the app bundle exposes it;
+   * prefer `signer` in production.
+   */
+  appSecret?: string;
+  /** Request signer (default: local HMAC with appSecret) */
+  signer?: ChatSigner;
+  /**
+   * Sign every request with a timestamp, nonce and body hash (default: false)
+   *
+   * Requires server support for the X-Chat-Timestamp, X-Chat-Nonce and
+   * X-Chat-Content-SHA256 headers.
+   */
+  requestSigning?: boolean;
+  /** Request/response middleware applied to every API call, in order */
+  middleware?: ChatMiddleware[];
   /** Optional custom socket URL (if different from default) */
   socketUrl?: string;
   /** Connection timeout in milliseconds (default: 20000) */
   connectionTimeout?: number;
-  /** Enable debug logging (default: false) */
+  /** Automatic retry of failed API requests */
+  retry?: ChatRetryOptions;
+  /** Enable debug logging to the console (default: false) */
   enableLogging?: boolean;
+  /** Log sink (default: console when enableLogging is set) */
+  logger?: ChatLogger;
+  /** Minimum level passed to the logger (default: 'debug') */
+  logLevel?: LogLevel;
+  /** Socket reconnection policy */
+  reconnection?: ChatReconnectionOptions;
+  /** Missed-message catch-up after reconnecting */
+  sync?: ChatSyncOptions;
+  /** Suspend the socket in background and resume it in foreground (disabled when omitted) */
+  lifecycle?: ChatLifecycleOptions;
+  /** Storage backend for browser key and user data (default: AsyncStorage) */
+  storage?: ChatStorageAdapter;
+  /** Persistent offline outbox for text messages (disabled when omitted) */
+  outbox?: ChatOutboxOptions;
+  /** Local message cache used to render history immediately */
+  messageCache?: ChatMessageCacheOptions;
+  /** Upload size/type limits and extra MIME types */
+  upload?: ChatUploadOptions;
 }
 
 /**
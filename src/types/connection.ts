@@ -0,0 +1,51 @@
+/**
+ * Socket connection status
+ */
+export type ConnectionStatus =
+  | 'idle'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed'
+  | 'unauthorized';
+
+/**
+ * Socket connection state
+ */
+export interface ConnectionState {
+  status: ConnectionStatus;
+  /** Current reconnection attempt (0 when not reconnecting) */
+  attempt: number;
+  /** Maximum reconnection attempts (null for infinite) */
+  maxAttempts: number | null;
+  /** Last connection error (if any) */
+  lastError: Error | null;
+}
+
+/**
+ * Socket reconnection policy
+ */
+export interface ChatReconnectionOptions {
+  /** Reconnect automatically after a connection loss (default: true) */
+  enabled?: boolean;
+  /** Maximum reconnection attempts, Infinity to never give up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first attempt in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Maximum delay between attempts in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /** Randomization factor between 0 and 1 applied to each delay (default: 0.5) */
+  jitter?: number;
+}
+
+/**
+ * Create the initial (idle) connection state
+ */
+export function createIdleConnectionState(maxAttempts: number | null = null): ConnectionState {
+  return {
+    status: 'idle',
+    attempt: 0,
+    maxAttempts,
+    lastError: null,
+  };
+}
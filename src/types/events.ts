@@ -0,0 +1,160 @@
+import { type MessageReaction, parseMessageReactions } from './message';
+
+/**
+ * Socket authentication error
+ */
+export interface AuthErrorEvent {
+  message: string;
+  code?: string;
+  /** Raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Participant joined/left the conversation
+ */
+export interface ParticipantEvent {
+  /** Participant identifier (user id or browser key) */
+  id?: string;
+  name?: string;
+  /** Participant type (e.g. 'admin', 'ai', 'user') */
+  type?: string;
+  /** Room the participant joined or left */
+  room?: string;
+  /** Raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Messages marked as read, by an agent or by this user (e.g. on another device)
+ */
+export interface ReadReceiptEvent {
+  /** Newest message covered by the receipt; all older messages are read too */
+  messageId: number;
+  readAt: Date;
+  /** Who read the messages ('user' for this visitor, otherwise e.g. 'admin') */
+  readerType?: string;
+  chatId?: number;
+  /** Raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Message deleted (retracted) by its sender or an agent
+ */
+export interface MessageDeletedEvent {
+  messageId: number;
+  chatId?: number;
+  deletedAt: Date;
+  /** Raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Reaction added to or removed from a message
+ */
+export interface MessageReactionEvent {
+  messageId: number;
+  emoji: string;
+  action: 'added' | 'removed';
+  /** Who reacted ('user' for this visitor, otherwise e.g. 'admin') */
+  reactorType?: string;
+  /** Reaction summary after the change, if sent by the server */
+  reactions?: MessageReaction[];
+  /** Raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Normalize an event payload to an object
+ */
+function toPayload(data: unknown): Record<string, unknown> {
+  if (typeof data === 'object' && data !== null) {
+    return data as Record<string, unknown>;
+  }
+  return data === undefined ? {} : { message: data };
+}
+
+/**
+ * Read an optional string field
+ */
+function optionalString(value: unknown): string | undefined {
+  return value == null ? undefined : String(value);
+}
+
+/**
+ * Parse AuthErrorEvent from socket payload
+ */
+export function parseAuthErrorEvent(data: unknown): AuthErrorEvent {
+  const json = toPayload(data);
+  return {
+    message: String(json.message ?? json.error ?? 'Authentication failed'),
+    code: optionalString(json.code),
+    data: json,
+  };
+}
+
+/**
+ * Parse ParticipantEvent from socket payload
+ */
+export function parseParticipantEvent(data: unknown): ParticipantEvent {
+  const json = toPayload(data);
+  return {
+    id: optionalString(json.user_id ?? json.id ?? json.browser_key),
+    name: optionalString(json.name ?? json.user_name),
+    type: optionalString(json.type ?? json.user_type),
+    room: optionalString(json.room ?? json.channel),
+    data: json,
+  };
+}
+
+/**
+ * Parse ReadReceiptEvent from socket payload
+ */
+export function parseReadReceiptEvent(data: unknown): ReadReceiptEvent {
+  const json = toPayload(data);
+  const chatId = json.chat_id == null ? undefined : Number(json.chat_id);
+  return {
+    messageId: Number(json.up_to_message_id ?? json.message_id ?? 0),
+    readAt: json.read_at ? new Date(json.read_at as string) : new Date(),
+    readerType: optionalString(json.reader_type ?? json.read_by),
+    chatId,
+    data: json,
+  };
+}
+
+/**
+ * Parse MessageDeletedEvent from socket payload
+ */
+export function parseMessageDeletedEvent(data: unknown): MessageDeletedEvent {
+  const json = toPayload(data);
+  // Either flat ({ message_id, ... }) or wrapping the deleted message
+  const message =
+    typeof json.message === 'object' && json.message !== null
+      ? (json.message as Record<string, unknown>)
+      : {};
+  const chatId = json.chat_id ?? message.chat_id;
+  const deletedAt = json.deleted_at ?? message.deleted_at;
+  return {
+    messageId: Number(json.message_id ?? message.id ?? 0),
+    chatId: chatId == null ? undefined : Number(chatId),
+    deletedAt: deletedAt ? new Date(deletedAt as string) : new Date(),
+    data: json,
+  };
+}
+
+/**
+ * Parse MessageReactionEvent from socket payload
+ */
+export function parseMessageReactionEvent(data: unknown): MessageReactionEvent {
+  const json = toPayload(data);
+  const action = String(json.action ?? 'added').toLowerCase();
+  return {
+    messageId: Number(json.message_id ?? 0),
+    emoji: String(json.emoji ?? json.reaction ?? ''),
+    action: action === 'removed' || action === 'remove' ? 'removed' : 'added',
+    reactorType: optionalString(json.reactor_type ?? json.user_type),
+    reactions: parseMessageReactions(json.reactions),
+    data: json,
+  };
+}
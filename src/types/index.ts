@@ -3,6 +3,18 @@ export * from './config';
 export * from './message';
 export * from './responses';
 export * from './remote-config';
+export * from './storage';
+export * from './outbox';
+export * from './connection';
+export * from './sync';
+export * from './lifecycle';
+export * from './events';
+export * from './signer';
+export * from './middleware';
+export * from './logger';
+export * from './retry';
+export * from './upload';
+export * from './unread';
 
 /**
  * User data for registration
@@ -20,6 +32,7 @@ export interface UserData {
 export interface ChatState {
   isInitialized: boolean;
   isConnected: boolean;
+  connectionState: import('./connection').ConnectionState;
   isRegistered: boolean;
   remoteConfig: import('./remote-config').ChatAppRemoteConfig | null;
   browserKey: string | null;
@@ -0,0 +1,30 @@
+/**
+ * Subscription returned by an app state source
+ */
+export interface AppStateSubscription {
+  remove(): void;
+}
+
+/**
+ * Source of app state changes
+ *
+ * Structurally compatible with React Native's `AppState`; any object with the
+ * same shape can be injected (e.g. in tests or non-React Native runtimes).
+ */
+export interface AppStateSource {
+  /** Current state ('active', 'background', 'inactive', ...) */
+  currentState: string | null;
+  addEventListener(type: 'change', listener: (state: string) => void): AppStateSubscription;
+}
+
+/**
+ * App lifecycle integration options
+ */
+export interface ChatLifecycleOptions {
+  /** App state source, usually `AppState` from react-native */
+  appState: AppStateSource;
+  /** Suspend and resume the socket with the app state (default: true) */
+  enabled?: boolean;
+  /** Time in background before the socket is disconnected, in milliseconds (default: 30000) */
+  backgroundGracePeriod?: number;
+}
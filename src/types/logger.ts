@@ -0,0 +1,30 @@
+/**
+ * Log severity, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Area of the SDK a log entry comes from
+ */
+export type LogCategory = 'api' | 'socket' | 'storage' | 'state';
+
+/**
+ * Structured log entry
+ *
+ * Fields are redacted before they reach the logger: browser keys,
+ * signatures, secrets and user data are replaced with '[REDACTED]'.
+ */
+export interface LogEntry {
+  level: LogLevel;
+  category: LogCategory;
+  message: string;
+  fields?: Record<string, unknown>;
+  timestamp: Date;
+}
+
+/**
+ * Log sink (console, Sentry breadcrumbs, your own backend, ...)
+ */
+export interface ChatLogger {
+  log(entry: LogEntry): void;
+}
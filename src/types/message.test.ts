@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ChatMessage,
+  isMessageDeleted,
+  mergeMessage,
+  mergeMessages,
+  parseChatMessage,
+  serializeChatMessage,
+} from './message';
+
+function message(overrides: Partial<ChatMessage>): ChatMessage {
+  return {
+    id: 1,
+    chatId: 1,
+    content: 'Hello',
+    type: 'user',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    isRead: false,
+    ...overrides,
+  };
+}
+
+describe('mergeMessage', () => {
+  it('prepends a new message', () => {
+    const existing = [message({ id: 1 })];
+    const result = mergeMessage(existing, message({ id: 2, content: 'Hi' }));
+
+    expect(result.map((m) => m.id)).toEqual([2, 1]);
+  });
+
+  it('replaces a message with the same id', () => {
+    const result = mergeMessage([message({ id: 1 })], message({ id: 1, content: 'Edited' }));
+
+    expect(result).toHaveLength(1);
+    expect(result[0].content).toBe('Edited');
+  });
+
+  it('replaces the optimistic message with the server copy by clientId', () => {
+    const pending = message({ id: -1, clientId: 'c1', status: 'pending' });
+    const result = mergeMessage([pending], message({ id: 10, clientId: 'c1', status: 'sent' }));
+
+    expect(result).toEqual([expect.objectContaining({ id: 10, clientId: 'c1', status: 'sent' })]);
+  });
+
+  it('reconciles a socket echo that arrives before the send response', () => {
+    const pending = message({ id: -1, clientId: 'c1', status: 'pending' });
+    const echoed = mergeMessage([pending], message({ id: 10 }));
+
+    expect(echoed).toEqual([expect.objectContaining({ id: 10, clientId: 'c1', status: 'sent' })]);
+
+    const confirmed = mergeMessage(echoed, message({ id: 10, clientId: 'c1', status: 'sent' }));
+    expect(confirmed).toHaveLength(1);
+  });
+
+  it('does not reconcile an echo with a different content or an incoming message', () => {
+    const pending = message({ id: -1, clientId: 'c1', status: 'pending' });
+
+    expect(mergeMessage([pending], message({ id: 10, content: 'Other' }))).toHaveLength(2);
+    expect(mergeMessage([pending], message({ id: 11, type: 'admin' }))).toHaveLength(2);
+  });
+
+  it('removes duplicates matched by id and clientId', () => {
+    const echoed = message({ id: 10 });
+    const pending = message({ id: -1, clientId: 'c1', status: 'pending' });
+    const result = mergeMessage([echoed, pending], message({ id: 10, clientId: 'c1', status: 'sent' }));
+
+    expect(result).toEqual([expect.objectContaining({ id: 10, clientId: 'c1' })]);
+  });
+
+  it('keeps a deleted message a tombstone', () => {
+    const deletedAt = new Date('2024-01-01T11:00:00Z');
+    const tombstone = message({ id: 1, content: '', deletedAt });
+    const result = mergeMessage([tombstone], message({ id: 1, content: 'Hello again' }));
+
+    expect(result[0]).toMatchObject({ content: '', deletedAt });
+  });
+
+  it('keeps a message deleted without a deletion time a tombstone', () => {
+    const tombstone = message({ id: 1, content: '', isDeleted: true });
+    const result = mergeMessage([tombstone], message({ id: 1, content: 'Hello again' }));
+
+    expect(isMessageDeleted(result[0])).toBe(true);
+    expect(result[0]).toMatchObject({ content: '', deletedAt: undefined });
+  });
+
+  it('keeps known reactions when the update has no reaction summary', () => {
+    const reactions = [{ emoji: '👍', count: 2, reactedByMe: true }];
+    const result = mergeMessage(
+      [message({ id: 1, type: 'admin', reactions })],
+      message({ id: 1, type: 'admin', content: 'Edited' })
+    );
+
+    expect(result[0]).toMatchObject({ content: 'Edited', reactions });
+  });
+
+  it('replaces reactions when the update has a summary', () => {
+    const result = mergeMessage(
+      [message({ id: 1, type: 'admin', reactions: [{ emoji: '👍', count: 2, reactedByMe: true }] })],
+      message({ id: 1, type: 'admin', reactions: [] })
+    );
+
+    expect(result[0].reactions).toEqual([]);
+  });
+
+  it('keeps a known reply preview over an empty one', () => {
+    const replyTo = { id: 5, content: 'Question?' };
+    const result = mergeMessage(
+      [message({ id: -1, clientId: 'c1', status: 'pending', replyTo: { id: 5, content: '' } })],
+      message({ id: 10, clientId: 'c1', replyTo })
+    );
+
+    expect(result[0].replyTo).toEqual(replyTo);
+  });
+});
+
+describe('mergeMessages', () => {
+  it('merges a page and sorts newest first', () => {
+    const existing = [message({ id: 2, createdAt: new Date('2024-01-01T10:02:00Z') })];
+    const result = mergeMessages(existing, [
+      message({ id: 3, createdAt: new Date('2024-01-01T10:03:00Z') }),
+      message({ id: 2, content: 'Edited', createdAt: new Date('2024-01-01T10:02:00Z') }),
+      message({ id: 1, createdAt: new Date('2024-01-01T10:01:00Z') }),
+    ]);
+
+    expect(result.map((m) => m.id)).toEqual([3, 2, 1]);
+    expect(result[1].content).toBe('Edited');
+  });
+});
+
+describe('parseChatMessage', () => {
+  it('keeps a deletion flag without inventing a deletion time', () => {
+    const parsed = parseChatMessage({ id: 1, content: '', is_deleted: true });
+
+    expect(parsed).toMatchObject({ isDeleted: true, deletedAt: undefined });
+    expect(parseChatMessage(serializeChatMessage(parsed))).toMatchObject({
+      isDeleted: true,
+      deletedAt: undefined,
+    });
+  });
+
+  it('reads the deletion time when the server sends it', () => {
+    const parsed = parseChatMessage({ id: 1, deleted_at: '2024-01-01T11:00:00Z' });
+
+    expect(parsed.isDeleted).toBe(true);
+    expect(parsed.deletedAt).toEqual(new Date('2024-01-01T11:00:00Z'));
+  });
+
+  it('leaves messages that are not deleted unflagged', () => {
+    expect(isMessageDeleted(parseChatMessage({ id: 1, content: 'Hello' }))).toBe(false);
+  });
+});
@@ -1,3 +1,5 @@
+import type { MessageDeletedEvent, MessageReactionEvent, ReadReceiptEvent } from './events';
+
 /**
  * Message type enum
  */
@@ -21,6 +23,35 @@ export function parseMessageType(value: string | undefined): MessageType {
   }
 }
 
+/**
+ * Delivery status of a locally sent message
+ */
+export type MessageStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Reaction summary entry of a message
+ */
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  /** Whether this user is one of the reactors */
+  reactedByMe: boolean;
+}
+
+/**
+ * Preview of the message a reply refers to
+ */
+export interface ReplyPreview {
+  id: number;
+  type?: MessageType;
+  senderName?: string;
+  /** Content snippet (empty until known, e.g. on an optimistic reply) */
+  content: string;
+}
+
+/** Maximum length of a reply preview snippet */
+const REPLY_SNIPPET_LENGTH = 100;
+
 /**
  * Chat message model
  */
@@ -36,6 +67,18 @@ export interface ChatMessage {
   isRead: boolean;
   readAt?: Date;
   metadata?: Record<string, unknown>;
+  /** Client-generated id of a locally sent message (stable across reconciliation) */
+  clientId?: string;
+  /** Delivery status of a locally sent message (undefined for server messages) */
+  status?: MessageStatus;
+  /** Set when the message was deleted; the message is then a tombstone without content */
+  isDeleted?: boolean;
+  /** When the message was deleted (only if the server sent it) */
+  deletedAt?: Date;
+  /** Reaction summary (only emojis with at least one reaction) */
+  reactions?: MessageReaction[];
+  /** Message this one replies to */
+  replyTo?: ReplyPreview;
 }
 
 /**
@@ -74,9 +117,111 @@ export function parseChatMessage(json: Record<string, unknown>): ChatMessage {
     isRead: (json.is_read as boolean) ?? false,
     readAt: json.read_at ? new Date(json.read_at as string) : undefined,
     metadata: json.metadata as Record<string, unknown> | undefined,
+    isDeleted: json.is_deleted === true || !!json.deleted_at || undefined,
+    deletedAt: json.deleted_at ? new Date(json.deleted_at as string) : undefined,
+    reactions: parseMessageReactions(json.reactions),
+    replyTo: parseReplyPreview(json),
+  };
+}
+
+/**
+ * Serialize ChatMessage to JSON (readable by parseChatMessage)
+ */
+export function serializeChatMessage(message: ChatMessage): Record<string, unknown> {
+  return {
+    id: message.id,
+    chat_id: message.chatId,
+    content: message.content,
+    type: message.type,
+    sender_name: message.senderName,
+    sender_type: message.senderType,
+    created_at: message.createdAt.toISOString(),
+    updated_at: message.updatedAt?.toISOString(),
+    is_read: message.isRead,
+    read_at: message.readAt?.toISOString(),
+    metadata: message.metadata,
+    is_deleted: message.isDeleted,
+    deleted_at: message.deletedAt?.toISOString(),
+    reactions: message.reactions?.map((r) => ({
+      emoji: r.emoji,
+      count: r.count,
+      reacted_by_me: r.reactedByMe,
+    })),
+    reply_to: message.replyTo && {
+      id: message.replyTo.id,
+      type: message.replyTo.type,
+      sender_name: message.replyTo.senderName,
+      content: message.replyTo.content,
+    },
+  };
+}
+
+/**
+ * Parse the reply preview of a message: a `reply_to` object, or only a `reply_to_id`
+ */
+function parseReplyPreview(json: Record<string, unknown>): ReplyPreview | undefined {
+  const replyTo = json.reply_to;
+  if (typeof replyTo === 'object' && replyTo !== null) {
+    const preview = replyTo as Record<string, unknown>;
+    const id = Number(preview.id ?? json.reply_to_id ?? 0);
+    if (id <= 0) return undefined;
+    return {
+      id,
+      type: preview.type ? parseMessageType(preview.type as string) : undefined,
+      senderName: preview.sender_name as string | undefined,
+      content: createReplySnippet(String(preview.content ?? preview.message ?? '')),
+    };
+  }
+
+  const id = Number(json.reply_to_id ?? 0);
+  return id > 0 ? { id, content: '' } : undefined;
+}
+
+/**
+ * Shorten content to a single-line reply snippet
+ */
+export function createReplySnippet(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > REPLY_SNIPPET_LENGTH
+    ? `${text.slice(0, REPLY_SNIPPET_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+/**
+ * Build the reply preview of a message
+ */
+export function createReplyPreview(message: ChatMessage): ReplyPreview {
+  return {
+    id: message.id,
+    type: message.type,
+    senderName: message.senderName,
+    content: isMessageDeleted(message) ? '' : createReplySnippet(message.content),
   };
 }
 
+/**
+ * Parse a reaction summary: a list of { emoji, count, reacted_by_me } or an
+ * { emoji: count } map
+ */
+export function parseMessageReactions(value: unknown): MessageReaction[] | undefined {
+  if (Array.isArray(value)) {
+    return value
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .map((item) => ({
+        emoji: String(item.emoji ?? ''),
+        count: Number(item.count ?? 0),
+        reactedByMe: item.reacted_by_me === true || item.me === true,
+      }))
+      .filter((r) => r.emoji !== '' && r.count > 0);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([emoji, count]) => ({ emoji, count: Number(count), reactedByMe: false }))
+      .filter((r) => r.count > 0);
+  }
+  return undefined;
+}
+
 /**
  * Parse SocketMessage from JSON
  */
@@ -162,3 +307,249 @@ export function canEditMessage(message: ChatMessage): boolean {
   const hoursDiff = diff / (1000 * 60 * 60);
   return hoursDiff < 24;
 }
+
+/**
+ * Check if message is a local message not yet confirmed by the server
+ */
+export function isLocalMessage(message: ChatMessage): boolean {
+  return message.id < 0;
+}
+
+/**
+ * Insert or update a message in a list (newest first)
+ *
+ * Reconciles optimistic messages: a message replaces the entries with the same
+ * id or clientId, and a server echo of our own message replaces the matching
+ * pending local message, so the list never shows a message twice. Deleted
+ * messages stay tombstones.
+ */
+export function mergeMessage(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  const matches = (m: ChatMessage): boolean =>
+    m.id === message.id || (message.clientId !== undefined && m.clientId === message.clientId);
+
+  let index = messages.findIndex(matches);
+  if (index === -1 && message.clientId === undefined && message.type === 'user') {
+    // Socket echo arriving before the send response
+    index = messages.findIndex(
+      (m) => m.status === 'pending' && isLocalMessage(m) && m.content === message.content
+    );
+  }
+
+  if (index === -1) {
+    return [message, ...messages];
+  }
+
+  const existing = messages[index];
+  let merged: ChatMessage = {
+    ...message,
+    clientId: message.clientId ?? existing.clientId,
+    status: message.status ?? (existing.status !== undefined ? 'sent' : undefined),
+    // Payloads without a reaction summary (e.g. edit events) keep the known reactions
+    reactions: message.reactions ?? existing.reactions,
+    replyTo: message.replyTo?.content ? message.replyTo : (existing.replyTo ?? message.replyTo),
+  };
+  if (isMessageDeleted(existing) && !isMessageDeleted(merged)) {
+    // Deletion is final: a stale copy must not bring the content back
+    merged = createDeletedMessage(merged, existing.deletedAt);
+  }
+
+  return messages
+    .filter((m, i) => i === index || !matches(m))
+    .map((m) => (m === existing ? merged : m));
+}
+
+/**
+ * Sort messages newest first (stable for equal timestamps)
+ */
+export function sortMessages(messages: ChatMessage[]): ChatMessage[] {
+  return [...messages].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Merge several messages into a list (newest first) with the same
+ * reconciliation rules as mergeMessage
+ */
+export function mergeMessages(messages: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  return sortMessages(incoming.reduceRight(mergeMessage, messages));
+}
+
+/**
+ * Check if a message was sent by the other side (agent, AI or system)
+ */
+export function isIncomingMessage(message: ChatMessage): boolean {
+  return message.type !== 'user';
+}
+
+/**
+ * Id of the newest incoming message that has not been read, or null
+ */
+export function getLatestUnreadIncomingId(messages: ChatMessage[]): number | null {
+  let latest: number | null = null;
+  for (const message of messages) {
+    if (isIncomingMessage(message) && !message.isRead && !isLocalMessage(message)) {
+      latest = latest === null ? message.id : Math.max(latest, message.id);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Apply a read receipt to a list of messages
+ *
+ * A receipt from this user marks incoming messages as read; a receipt from an
+ * agent marks our own messages as read. Returns the same array if nothing changed.
+ */
+export function applyReadReceipt(
+  messages: ChatMessage[],
+  receipt: Pick<ReadReceiptEvent, 'messageId' | 'readAt' | 'readerType'>
+): ChatMessage[] {
+  const readByUser = receipt.readerType === 'user';
+  const covers = (m: ChatMessage): boolean =>
+    !m.isRead &&
+    !isLocalMessage(m) &&
+    m.id <= receipt.messageId &&
+    isIncomingMessage(m) === readByUser;
+
+  if (!messages.some(covers)) return messages;
+  return messages.map((m) => (covers(m) ? { ...m, isRead: true, readAt: receipt.readAt } : m));
+}
+
+/**
+ * Check if message has been deleted
+ */
+export function isMessageDeleted(message: ChatMessage): boolean {
+  return message.isDeleted === true || message.deletedAt !== undefined;
+}
+
+/**
+ * Check if message can be deleted (own, confirmed, not yet deleted)
+ */
+export function canDeleteMessage(message: ChatMessage): boolean {
+  return message.type === 'user' && !isLocalMessage(message) && !isMessageDeleted(message);
+}
+
+/**
+ * Turn a message into a deleted-message tombstone (content, metadata and reactions removed)
+ */
+export function createDeletedMessage(message: ChatMessage, deletedAt?: Date): ChatMessage {
+  return {
+    ...message,
+    content: '',
+    metadata: undefined,
+    reactions: undefined,
+    isDeleted: true,
+    deletedAt,
+  };
+}
+
+/**
+ * Apply a message deletion to a list of messages
+ *
+ * @param keepTombstone - Replace the message with a tombstone instead of removing it
+ * @returns The same array if the message is not in the list
+ */
+export function applyMessageDeletion(
+  messages: ChatMessage[],
+  event: Pick<MessageDeletedEvent, 'messageId' | 'deletedAt'>,
+  keepTombstone = true
+): ChatMessage[] {
+  if (!messages.some((m) => m.id === event.messageId)) return messages;
+  if (!keepTombstone) return messages.filter((m) => m.id !== event.messageId);
+  return messages.map((m) =>
+    m.id === event.messageId ? createDeletedMessage(m, m.deletedAt ?? event.deletedAt) : m
+  );
+}
+
+/**
+ * Check if this user can react to a message (confirmed agent or AI replies)
+ */
+export function canReactToMessage(message: ChatMessage): boolean {
+  return (
+    (message.type === 'admin' || message.type === 'ai') &&
+    !isLocalMessage(message) &&
+    !isMessageDeleted(message)
+  );
+}
+
+/**
+ * Add or remove one reaction in a reaction summary
+ *
+ * Repeating this user's own change is a no-op, so a socket echo of a reaction
+ * that was already applied is not counted twice.
+ */
+export function applyReactionChange(
+  reactions: MessageReaction[],
+  emoji: string,
+  action: 'added' | 'removed',
+  byMe: boolean
+): MessageReaction[] {
+  const existing = reactions.find((r) => r.emoji === emoji);
+
+  if (action === 'added') {
+    if (byMe && existing?.reactedByMe) return reactions;
+    if (!existing) return [...reactions, { emoji, count: 1, reactedByMe: byMe }];
+    return reactions.map((r) =>
+      r === existing ? { ...r, count: r.count + 1, reactedByMe: r.reactedByMe || byMe } : r
+    );
+  }
+
+  if (!existing || (byMe && !existing.reactedByMe)) return reactions;
+  return reactions
+    .map((r) =>
+      r === existing ? { ...r, count: r.count - 1, reactedByMe: byMe ? false : r.reactedByMe } : r
+    )
+    .filter((r) => r.count > 0);
+}
+
+/**
+ * Apply a reaction event to a list of messages
+ *
+ * A server summary replaces the counts; whether this user reacted is kept from
+ * the current state unless the event is this user's own change.
+ *
+ * @returns The same array if the message is not in the list
+ */
+export function applyMessageReaction(
+  messages: ChatMessage[],
+  event: Pick<MessageReactionEvent, 'messageId' | 'emoji' | 'action' | 'reactorType' | 'reactions'>
+): ChatMessage[] {
+  if (!messages.some((m) => m.id === event.messageId)) return messages;
+
+  const byMe = event.reactorType === 'user';
+  return messages.map((m) => {
+    if (m.id !== event.messageId || isMessageDeleted(m)) return m;
+
+    const current = m.reactions ?? [];
+    if (!event.reactions) {
+      return { ...m, reactions: applyReactionChange(current, event.emoji, event.action, byMe) };
+    }
+
+    const reactions = event.reactions.map((r) => {
+      if (byMe && r.emoji === event.emoji) {
+        return { ...r, reactedByMe: event.action === 'added' };
+      }
+      const mine = current.find((c) => c.emoji === r.emoji)?.reactedByMe ?? false;
+      return { ...r, reactedByMe: r.reactedByMe || mine };
+    });
+    return { ...m, reactions };
+  });
+}
+
+/**
+ * Find a message by id in a list
+ */
+export function findMessageById(messages: ChatMessage[], id: number): ChatMessage | undefined {
+  return messages.find((m) => m.id === id);
+}
+
+/**
+ * Fill in a reply preview without content from the referenced message in a list
+ *
+ * @returns The same message if there is nothing to fill in
+ */
+export function fillReplyPreview(message: ChatMessage, messages: ChatMessage[]): ChatMessage {
+  if (!message.replyTo || message.replyTo.content) return message;
+
+  const target = findMessageById(messages, message.replyTo.id);
+  return target ? { ...message, replyTo: createReplyPreview(target) } : message;
+}
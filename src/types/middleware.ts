@@ -0,0 +1,57 @@
+/**
+ * Outgoing API request passed through middleware
+ *
+ * Middleware may mutate headers, params and data in place; the request is
+ * signed after all middleware has run.
+ */
+export interface ChatRequest {
+  method: 'GET' | 'POST';
+  /** Endpoint path relative to the API URL (e.g. '/send-message') */
+  path: string;
+  headers: Record<string, string>;
+  /** Query parameters */
+  params: Record<string, unknown>;
+  /** JSON body object, or FormData for uploads */
+  data?: unknown;
+}
+
+/**
+ * API response observed by middleware
+ */
+export interface ChatResponse {
+  request: ChatRequest;
+  status: number;
+  headers: Record<string, string>;
+  data: Record<string, unknown>;
+  /** Whether a middleware supplied the response without a network call */
+  fromCache: boolean;
+}
+
+/**
+ * Response returned by a middleware to short-circuit a request
+ */
+export interface ChatCachedResponse {
+  data: Record<string, unknown>;
+  /** HTTP status (default: 200) */
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Request/response middleware for the API service
+ */
+export interface ChatMiddleware {
+  /**
+   * Inspect or mutate an outgoing request
+   *
+   * Return a response to skip the network call (and the remaining middleware).
+   * Throwing fails the request.
+   */
+  onRequest?(
+    request: ChatRequest
+  ): void | ChatCachedResponse | Promise<void | ChatCachedResponse>;
+  /** Observe a successful response */
+  onResponse?(response: ChatResponse): void | Promise<void>;
+  /** Observe a failed request */
+  onError?(error: unknown, request: ChatRequest): void | Promise<void>;
+}
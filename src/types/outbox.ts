@@ -0,0 +1,77 @@
+/**
+ * Outbox item status
+ */
+export type OutboxItemStatus = 'queued' | 'sending' | 'failed';
+
+/**
+ * Text message waiting in the offline outbox
+ */
+export interface OutboxItem {
+  /** Client-generated id */
+  id: string;
+  message: string;
+  endpoint?: string;
+  metadata?: Record<string, unknown>;
+  /** Id of the message this one replies to */
+  replyToId?: number;
+  status: OutboxItemStatus;
+  /** Number of send attempts made so far */
+  attempts: number;
+  createdAt: Date;
+  /** Earliest time of the next automatic attempt */
+  nextAttemptAt?: Date;
+  /** Error message of the last failed attempt */
+  lastError?: string;
+}
+
+/**
+ * Outbox options
+ */
+export interface ChatOutboxOptions {
+  /** Queue text messages that fail because of network errors (default: true) */
+  enabled?: boolean;
+  /** Maximum automatic send attempts per message (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 2000) */
+  retryDelay?: number;
+  /** Maximum retry delay in milliseconds (default: 60000) */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Parse OutboxItem from persisted JSON
+ */
+export function parseOutboxItem(json: Record<string, unknown>): OutboxItem {
+  const status = json.status as OutboxItemStatus | undefined;
+  return {
+    id: (json.id as string) ?? '',
+    message: (json.message as string) ?? '',
+    endpoint: json.endpoint as string | undefined,
+    metadata: json.metadata as Record<string, unknown> | undefined,
+    replyToId: json.reply_to_id as number | undefined,
+    // An item persisted mid-send was interrupted; queue it again
+    status: status === 'failed' ? 'failed' : 'queued',
+    attempts: (json.attempts as number) ?? 0,
+    createdAt: json.created_at ? new Date(json.created_at as string) : new Date(),
+    nextAttemptAt: json.next_attempt_at ? new Date(json.next_attempt_at as string) : undefined,
+    lastError: json.last_error as string | undefined,
+  };
+}
+
+/**
+ * Serialize OutboxItem to persistable JSON
+ */
+export function serializeOutboxItem(item: OutboxItem): Record<string, unknown> {
+  return {
+    id: item.id,
+    message: item.message,
+    endpoint: item.endpoint,
+    metadata: item.metadata,
+    reply_to_id: item.replyToId,
+    status: item.status,
+    attempts: item.attempts,
+    created_at: item.createdAt.toISOString(),
+    next_attempt_at: item.nextAttemptAt?.toISOString(),
+    last_error: item.lastError,
+  };
+}
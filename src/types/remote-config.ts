@@ -1,3 +1,5 @@
+import type { UploadLimits } from './upload';
+
 /**
  * Chat App configuration received from server
  */
@@ -70,3 +72,22 @@ export function getMsHeaderColor(config: ChatAppRemoteConfig): string {
 export function getMsNameColor(config: ChatAppRemoteConfig): string {
   return String(config.settings.ms_name_color ?? 'darkred');
 }
+
+/**
+ * Get upload limits from settings (max_file_size in bytes, allowed_file_types
+ * as an array or comma-separated list)
+ */
+export function getUploadLimits(config: ChatAppRemoteConfig): UploadLimits {
+  const maxFileSize = Number(config.settings.max_file_size);
+  const allowed = config.settings.allowed_file_types;
+  const allowedTypes = Array.isArray(allowed)
+    ? allowed.map(String)
+    : typeof allowed === 'string' && allowed.trim() !== ''
+      ? allowed.split(',').map((type) => type.trim())
+      : undefined;
+
+  return {
+    maxFileSize: Number.isFinite(maxFileSize) && maxFileSize > 0 ? maxFileSize : undefined,
+    allowedTypes,
+  };
+}
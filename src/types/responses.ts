@@ -1,3 +1,5 @@
+import { type MessageReaction, parseMessageReactions } from './message';
+
 /**
  * Registration response
  */
@@ -49,10 +51,63 @@ export type SendProgressCallback = (sent: number, total: number) => void;
  * Upload response
  */
 export interface UploadResponse {
+  success: boolean;
+  /** URL of the uploaded file */
+  url: string;
+  /** Same as url (kept for image uploads) */
   imageUrl: string;
+  fileName?: string;
+  mimeType?: string;
+  /** File size in bytes */
+  size?: number;
+  /** Id of the chat message created for the upload */
+  messageId?: number;
+  /** Raw response payload */
+  data: Record<string, unknown>;
+  /** Raw response fields (e.g. image_url) */
   [key: string]: unknown;
 }
 
+/**
+ * Delete message response
+ */
+export interface DeleteMessageResponse {
+  success: boolean;
+  messageId: number;
+  deletedAt: Date;
+}
+
+/**
+ * Add/remove reaction response
+ */
+export interface ReactionResponse {
+  success: boolean;
+  messageId: number;
+  /** Reaction summary after the change, if returned by the server */
+  reactions?: MessageReaction[];
+}
+
+/**
+ * Mark-as-read response
+ */
+export interface MarkAsReadResponse {
+  success: boolean;
+  /** Newest message marked as read */
+  messageId: number;
+  readAt: Date;
+}
+
+/**
+ * Chunked upload init/status response
+ */
+export interface ChunkedUploadStatusResponse {
+  uploadId: string;
+  /** Chunk size chosen by the server, if it overrides the requested one */
+  chunkSize?: number;
+  /** Indexes of the chunks the server has received */
+  uploadedChunks: number[];
+}
+
 /**
  * Parse RegistrationResponse from JSON
  */
@@ -103,3 +158,77 @@ export function parseUpdateUserDataResponse(json: Record<string, unknown>): Upda
     message: json.message as string | undefined,
   };
 }
+
+/**
+ * Parse UploadResponse from JSON
+ */
+export function parseUploadResponse(json: Record<string, unknown>): UploadResponse {
+  const url = String(json.file_url ?? json.image_url ?? json.url ?? '');
+  return {
+    ...json,
+    success: (json.success as boolean) ?? url !== '',
+    url,
+    imageUrl: url,
+    fileName: (json.file_name ?? json.original_name) as string | undefined,
+    mimeType: (json.mime_type ?? json.file_type) as string | undefined,
+    size: (json.file_size ?? json.size) as number | undefined,
+    messageId: (json.message_id as number | undefined) ?? undefined,
+    data: json,
+  };
+}
+
+/**
+ * Parse ChunkedUploadStatusResponse from JSON
+ */
+export function parseChunkedUploadStatusResponse(
+  json: Record<string, unknown>
+): ChunkedUploadStatusResponse {
+  const uploaded = json.uploaded_chunks;
+  return {
+    uploadId: String(json.upload_id ?? ''),
+    chunkSize: json.chunk_size as number | undefined,
+    uploadedChunks: Array.isArray(uploaded) ? uploaded.map(Number) : [],
+  };
+}
+
+/**
+ * Parse MarkAsReadResponse from JSON
+ */
+export function parseMarkAsReadResponse(
+  json: Record<string, unknown>,
+  messageId: number
+): MarkAsReadResponse {
+  return {
+    success: (json.success as boolean) ?? true,
+    messageId: (json.up_to_message_id as number) ?? messageId,
+    readAt: json.read_at ? new Date(json.read_at as string) : new Date(),
+  };
+}
+
+/**
+ * Parse DeleteMessageResponse from JSON
+ */
+export function parseDeleteMessageResponse(
+  json: Record<string, unknown>,
+  messageId: number
+): DeleteMessageResponse {
+  return {
+    success: (json.success as boolean) ?? true,
+    messageId: (json.message_id as number) ?? messageId,
+    deletedAt: json.deleted_at ? new Date(json.deleted_at as string) : new Date(),
+  };
+}
+
+/**
+ * Parse ReactionResponse from JSON
+ */
+export function parseReactionResponse(
+  json: Record<string, unknown>,
+  messageId: number
+): ReactionResponse {
+  return {
+    success: (json.success as boolean) ?? true,
+    messageId: (json.message_id as number) ?? messageId,
+    reactions: parseMessageReactions(json.reactions),
+  };
+}
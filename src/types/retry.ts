@@ -0,0 +1,27 @@
+/**
+ * Automatic retry policy for API requests
+ */
+export interface ChatRetryOptions {
+  /** Retry failed requests automatically (default: true) */
+  enabled?: boolean;
+  /** Total attempts per request, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms, doubled for every further retry (default: 500) */
+  initialDelay?: number;
+  /** Maximum delay between attempts in ms (default: 8000) */
+  maxDelay?: number;
+  /**
+   * Endpoint paths to retry (e.g. ['/send-message', '/messages'])
+   *
+   * Default: GETs, requests with an Idempotency-Key and endpoints that are safe
+   * to repeat (e.g. '/messages'). Uploads and other POSTs are not retried, since
+   * a lost response would apply them twice.
+   */
+  endpoints?: string[];
+  /**
+   * Wait as long as the server's Retry-After header asks (default: true)
+   *
+   * A Retry-After longer than maxDelay fails the request instead of waiting.
+   */
+  respectRetryAfter?: boolean;
+}
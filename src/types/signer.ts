@@ -0,0 +1,27 @@
+/**
+ * Request being signed
+ */
+export interface ChatSignRequest {
+  method: 'GET' | 'POST';
+  /** Endpoint path relative to the API URL (e.g. '/send-message') */
+  path: string;
+  /** Unix timestamp in seconds (per-request signing only) */
+  timestamp?: number;
+  /** Random nonce (per-request signing only) */
+  nonce?: string;
+  /** SHA-256 hex of the request body (per-request signing only) */
+  bodyHash?: string;
+}
+
+/**
+ * Produces the X-Chat-Signature value for API requests
+ *
+ * Implement this to fetch the signature (or a short-lived token) from your own
+ * backend instead of shipping the app secret in the app bundle.
+ */
+export interface ChatSigner {
+  /** Get the signature for a request */
+  sign(request: ChatSignRequest): string | Promise<string>;
+  /** Drop any cached signature (called when the server rejects it with 401) */
+  invalidate?(): void;
+}
@@ -0,0 +1,32 @@
+/**
+ * Key-value storage backend used by ChatStorageService
+ *
+ * Only the single-key operations are required. When the multi-key operations
+ * are missing, the SDK falls back to the single-key ones.
+ */
+export interface ChatStorageAdapter {
+  /** Get a value (null if missing) */
+  getItem(key: string): Promise<string | null>;
+  /** Set a value */
+  setItem(key: string, value: string): Promise<void>;
+  /** Remove a value */
+  removeItem(key: string): Promise<void>;
+  /** Get several values at once */
+  multiGet?(keys: string[]): Promise<Array<[string, string | null]>>;
+  /** Set several values at once */
+  multiSet?(entries: Array<[string, string]>): Promise<void>;
+  /** Remove several values at once */
+  multiRemove?(keys: string[]): Promise<void>;
+}
+
+/**
+ * Local message cache options
+ */
+export interface ChatMessageCacheOptions {
+  /** Cache messages locally (default: true) */
+  enabled?: boolean;
+  /** Maximum number of cached messages per browser key (default: 100) */
+  maxMessages?: number;
+  /** Storage backend for the cache (default: the storage option, or AsyncStorage) */
+  storage?: ChatStorageAdapter;
+}
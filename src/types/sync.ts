@@ -0,0 +1,11 @@
+/**
+ * Missed-message catch-up options
+ */
+export interface ChatSyncOptions {
+  /** Fetch messages missed while disconnected on every (re)connect (default: true) */
+  enabled?: boolean;
+  /** Page size used when catching up (default: 50) */
+  perPage?: number;
+  /** Maximum pages fetched per catch-up (default: 5) */
+  maxPages?: number;
+}
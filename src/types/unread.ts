@@ -0,0 +1,37 @@
+/**
+ * Persisted unread state
+ */
+export interface UnreadState {
+  /** Newest incoming message this user marked as read (0 if none) */
+  lastReadMessageId: number;
+  /** Ids of unread admin/ai messages newer than the read marker */
+  unreadMessageIds: number[];
+}
+
+/**
+ * Create an empty unread state
+ */
+export function createEmptyUnreadState(): UnreadState {
+  return { lastReadMessageId: 0, unreadMessageIds: [] };
+}
+
+/**
+ * Parse UnreadState from persisted JSON
+ */
+export function parseUnreadState(json: Record<string, unknown>): UnreadState {
+  const ids = json.unread_message_ids;
+  return {
+    lastReadMessageId: (json.last_read_message_id as number) ?? 0,
+    unreadMessageIds: Array.isArray(ids) ? ids.map(Number).filter(Number.isFinite) : [],
+  };
+}
+
+/**
+ * Serialize UnreadState to persistable JSON
+ */
+export function serializeUnreadState(state: UnreadState): Record<string, unknown> {
+  return {
+    last_read_message_id: state.lastReadMessageId,
+    unread_message_ids: state.unreadMessageIds,
+  };
+}
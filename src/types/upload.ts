@@ -0,0 +1,253 @@
+import type { UploadResponse } from './responses';
+
+/**
+ * File to upload
+ */
+export interface UploadFile {
+  /** Local file URI (file://, content://, ...) */
+  uri: string;
+  /** File name (default: last URI segment) */
+  name?: string;
+  /** MIME type (default: detected from the file extension) */
+  type?: string;
+  /** Size in bytes, used to enforce maxFileSize before uploading (looked up if omitted) */
+  size?: number;
+  /** Image or video width in pixels */
+  width?: number;
+  /** Image or video height in pixels */
+  height?: number;
+  /** Extra metadata stored with the upload's message */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Upload restrictions
+ */
+export interface UploadLimits {
+  /** Maximum file size in bytes */
+  maxFileSize?: number;
+  /** Allowed MIME types; wildcards such as 'image/*' are supported */
+  allowedTypes?: string[];
+}
+
+/**
+ * Upload options
+ *
+ * Limits set here take precedence over the limits from the remote config settings.
+ */
+export interface ChatUploadOptions extends UploadLimits {
+  /** Additional extension → MIME type mappings (e.g. { heic: 'image/heic' }) */
+  mimeTypes?: Record<string, string>;
+  /** Resumable chunked uploads for large files (disabled when omitted) */
+  chunked?: ChatChunkedUploadOptions;
+  /** Upload queue used by uploadImages/uploadFiles */
+  queue?: ChatUploadQueueOptions;
+  /** Transformers run on every file before it is uploaded, in order */
+  transformers?: UploadTransformer[];
+}
+
+/**
+ * Context passed to upload transformers
+ */
+export interface UploadTransformContext {
+  kind: UploadKind;
+}
+
+/**
+ * Preprocesses a file before it is uploaded (resize, compress, strip EXIF, convert, ...)
+ *
+ * Receives the file with its name and MIME type resolved. Return the file
+ * unchanged to skip it. A file with a new URI keeps the previous name and type
+ * unless given, but not the previous `size`, `width` and `height`: include the
+ * new values so they are checked and recorded with the message.
+ */
+export type UploadTransformer = (
+  file: UploadFile & { name: string; type: string },
+  context: UploadTransformContext
+) => UploadFile | Promise<UploadFile>;
+
+/**
+ * Upload queue options
+ */
+export interface ChatUploadQueueOptions {
+  /** Maximum number of simultaneous uploads (default: 2) */
+  concurrency?: number;
+  /** Attempts per file for retryable failures (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  retryDelay?: number;
+  /** Maximum retry delay in milliseconds (default: 30000) */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Reads the bytes [start, end) of a local file
+ */
+export type ChunkReader = (file: UploadFile, start: number, end: number) => Promise<Blob>;
+
+/**
+ * File system functions used to read chunks from disk (matches expo-file-system)
+ */
+export interface ChunkFileSystem {
+  /** Directory for temporary chunk files */
+  cacheDirectory: string | null;
+  readAsStringAsync(
+    uri: string,
+    options: { encoding: 'base64'; position: number; length: number }
+  ): Promise<string>;
+  writeAsStringAsync(uri: string, contents: string, options: { encoding: 'base64' }): Promise<void>;
+  deleteAsync(uri: string, options?: { idempotent?: boolean }): Promise<void>;
+}
+
+/**
+ * Chunked upload options
+ */
+export interface ChatChunkedUploadOptions {
+  /** Upload large files in chunks (default: true) */
+  enabled?: boolean;
+  /** Files of at least this many bytes are uploaded in chunks (default: 5 MB) */
+  threshold?: number;
+  /** Requested chunk size in bytes; the server may choose another (default: 1 MB) */
+  chunkSize?: number;
+  /** Attempts per chunk before the upload fails (default: 3) */
+  maxChunkAttempts?: number;
+  /** Delay before the first chunk retry in milliseconds (default: 1000) */
+  retryDelay?: number;
+  /**
+   * Reads chunks from file URIs (default: createFetchChunkReader)
+   *
+   * Use createFileSystemChunkReader for large local files on native platforms.
+   */
+  readChunk?: ChunkReader;
+}
+
+/**
+ * Kind of message created when an upload completes
+ */
+export type UploadKind = 'image' | 'file';
+
+/**
+ * Upload queue item status
+ */
+export type UploadItemStatus =
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * File in the upload queue
+ */
+export interface UploadItem {
+  /** Client-generated id */
+  id: string;
+  kind: UploadKind;
+  file: UploadFile;
+  endpoint?: string;
+  status: UploadItemStatus;
+  /** Bytes sent so far */
+  sentBytes: number;
+  /** File size in bytes (0 until known) */
+  totalBytes: number;
+  /** Number of upload attempts made so far */
+  attempts: number;
+  /** Sent with every attempt so a retry never sends the file twice */
+  idempotencyKey: string;
+  /** Error message of the last failed attempt */
+  error?: string;
+  /** Server response once completed */
+  response?: UploadResponse;
+  createdAt: Date;
+}
+
+/**
+ * Aggregate progress of upload queue items
+ */
+export interface UploadQueueProgress {
+  sentBytes: number;
+  totalBytes: number;
+  /** Fraction between 0 and 1 */
+  progress: number;
+}
+
+/**
+ * Compute the aggregate progress of upload queue items
+ *
+ * Cancelled and failed items are left out.
+ */
+export function getUploadQueueProgress(items: UploadItem[]): UploadQueueProgress {
+  let sentBytes = 0;
+  let totalBytes = 0;
+  for (const item of items) {
+    if (item.status === 'cancelled' || item.status === 'failed') continue;
+    const total = Math.max(item.totalBytes, item.sentBytes);
+    totalBytes += total;
+    sentBytes += item.status === 'completed' ? total : item.sentBytes;
+  }
+  return {
+    sentBytes,
+    totalBytes,
+    progress: totalBytes > 0 ? Math.min(1, sentBytes / totalBytes) : 0,
+  };
+}
+
+/**
+ * Chunked upload in progress, persisted so it can resume after a restart
+ */
+export interface UploadSession {
+  /** Upload id assigned by the server */
+  id: string;
+  kind: UploadKind;
+  uri: string;
+  name: string;
+  type: string;
+  /** File size in bytes */
+  size: number;
+  endpoint?: string;
+  /** Chunk size in bytes */
+  chunkSize: number;
+  totalChunks: number;
+  /** Indexes of the chunks the server has received */
+  uploadedChunks: number[];
+  createdAt: Date;
+}
+
+/**
+ * Parse UploadSession from persisted JSON
+ */
+export function parseUploadSession(json: Record<string, unknown>): UploadSession {
+  return {
+    id: String(json.id ?? ''),
+    kind: json.kind === 'image' ? 'image' : 'file',
+    uri: (json.uri as string) ?? '',
+    name: (json.name as string) ?? '',
+    type: (json.type as string) ?? '',
+    size: (json.size as number) ?? 0,
+    endpoint: json.endpoint as string | undefined,
+    chunkSize: (json.chunk_size as number) ?? 0,
+    totalChunks: (json.total_chunks as number) ?? 0,
+    uploadedChunks: Array.isArray(json.uploaded_chunks) ? (json.uploaded_chunks as number[]) : [],
+    createdAt: json.created_at ? new Date(json.created_at as string) : new Date(),
+  };
+}
+
+/**
+ * Serialize UploadSession to persistable JSON
+ */
+export function serializeUploadSession(session: UploadSession): Record<string, unknown> {
+  return {
+    id: session.id,
+    kind: session.kind,
+    uri: session.uri,
+    name: session.name,
+    type: session.type,
+    size: session.size,
+    endpoint: session.endpoint,
+    chunk_size: session.chunkSize,
+    total_chunks: session.totalChunks,
+    uploaded_chunks: session.uploadedChunks,
+    created_at: session.createdAt.toISOString(),
+  };
+}
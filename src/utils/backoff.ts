@@ -0,0 +1,52 @@
+/**
+ * Compute an exponential backoff delay
+ *
+ * @param attempt - Attempt number (1 for the first retry)
+ * @param baseDelay - Delay for the first retry in milliseconds
+ * @param maxDelay - Upper bound for the delay in milliseconds
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(baseDelay * Math.pow(2, exponent), maxDelay);
+}
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date)
+ *
+ * @returns Delay in milliseconds, or null if missing or invalid
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? value * 1000 : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : null;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for a delay, returning early when the signal is aborted
+ */
+export function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delay);
+    signal?.addEventListener('abort', done);
+  });
+}
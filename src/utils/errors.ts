@@ -15,16 +15,27 @@ export class ChatException extends Error {
   }
 }
 
+/**
+ * Whether a request that failed with this status is worth retrying
+ * (network failures, timeouts, throttling, server errors)
+ */
+export function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 0 || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
 /**
  * API exception with status code
  */
 export class ChatApiException extends ChatException {
   public readonly statusCode: number;
+  /** Whether repeating the same request may succeed */
+  public readonly isRetryable: boolean;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, isRetryable = isRetryableStatus(statusCode)) {
     super(message);
     this.name = 'ChatApiException';
     this.statusCode = statusCode;
+    this.isRetryable = isRetryable;
     const ErrorWithCapture = Error as typeof Error & {
       captureStackTrace?: (target: object, constructor: Function) => void;
     };
@@ -34,14 +45,141 @@ export class ChatApiException extends ChatException {
   }
 
   override toString(): string {
-    return `ChatApiException: ${this.message} (status: ${this.statusCode})`;
+    return `${this.name}: ${this.message} (status: ${this.statusCode})`;
+  }
+}
+
+/**
+ * Exception thrown when the server could not be reached
+ */
+export class ChatNetworkException extends ChatApiException {
+  constructor(message: string = 'Network error') {
+    super(message, 0, true);
+    this.name = 'ChatNetworkException';
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatNetworkException);
+    }
+  }
+}
+
+/**
+ * Exception thrown when a request timed out
+ */
+export class ChatTimeoutException extends ChatApiException {
+  constructor(message: string = 'Request timed out', statusCode: number = 0) {
+    super(message, statusCode, true);
+    this.name = 'ChatTimeoutException';
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatTimeoutException);
+    }
+  }
+}
+
+/**
+ * Exception thrown when the server rejected the request data (e.g. 422)
+ */
+export class ChatValidationException extends ChatApiException {
+  /** Error messages per field (e.g. { email: ['The email must be valid.'] }) */
+  public readonly fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, fieldErrors: Record<string, string[]> = {}, statusCode: number = 422) {
+    super(message, statusCode, false);
+    this.name = 'ChatValidationException';
+    this.fieldErrors = fieldErrors;
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatValidationException);
+    }
+  }
+
+  /**
+   * First error message for a field
+   */
+  getFieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0];
+  }
+}
+
+/**
+ * Exception thrown when the request was not authorized (401/403)
+ */
+export class ChatUnauthorizedException extends ChatApiException {
+  constructor(message: string = 'Unauthorized', statusCode: number = 401) {
+    super(message, statusCode, false);
+    this.name = 'ChatUnauthorizedException';
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatUnauthorizedException);
+    }
+  }
+}
+
+/**
+ * Exception thrown when the server throttled the request (429)
+ */
+export class ChatRateLimitedException extends ChatApiException {
+  /** Delay requested by the server (Retry-After) in milliseconds, if any */
+  public readonly retryAfter: number | null;
+
+  constructor(message: string = 'Too many requests', retryAfter: number | null = null) {
+    super(message, 429, true);
+    this.name = 'ChatRateLimitedException';
+    this.retryAfter = retryAfter;
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatRateLimitedException);
+    }
+  }
+}
+
+/**
+ * Exception thrown when the server failed to handle the request (5xx)
+ */
+export class ChatServerException extends ChatApiException {
+  constructor(message: string, statusCode: number = 500) {
+    super(message, statusCode, true);
+    this.name = 'ChatServerException';
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, ChatServerException);
+    }
+  }
+}
+
+/**
+ * Exception thrown when a request was aborted (AbortSignal or CancelToken)
+ */
+export class RequestCancelledException extends ChatException {
+  constructor(message: string = 'Request was cancelled') {
+    super(message);
+    this.name = 'RequestCancelledException';
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, RequestCancelledException);
+    }
   }
 }
 
 /**
  * Exception thrown when an upload is cancelled
  */
-export class UploadCancelledException extends ChatException {
+export class UploadCancelledException extends RequestCancelledException {
   constructor(message: string = 'Upload was cancelled') {
     super(message);
     this.name = 'UploadCancelledException';
@@ -53,3 +191,25 @@ export class UploadCancelledException extends ChatException {
     }
   }
 }
+
+/**
+ * Exception thrown when a message could not be sent and was queued in the outbox
+ *
+ * Not retryable: the outbox already retries the message, and sending it again
+ * would duplicate it.
+ */
+export class MessageQueuedException extends ChatApiException {
+  public readonly outboxItemId: string;
+
+  constructor(message: string, statusCode: number, outboxItemId: string) {
+    super(message, statusCode, false);
+    this.name = 'MessageQueuedException';
+    this.outboxItemId = outboxItemId;
+    const ErrorWithCapture = Error as typeof Error & {
+      captureStackTrace?: (target: object, constructor: Function) => void;
+    };
+    if (ErrorWithCapture.captureStackTrace) {
+      ErrorWithCapture.captureStackTrace(this, MessageQueuedException);
+    }
+  }
+}
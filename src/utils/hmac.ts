@@ -13,3 +13,67 @@ export function generateSignature(appKey: string, appSecret: string): string {
   // The key is appSecret, the message is appKey
   return sha256.hmac(appSecret, appKey);
 }
+
+/**
+ * Parameters of a per-request signature
+ */
+export interface RequestSignatureParams {
+  method: string;
+  /** Endpoint path (e.g. '/send-message') */
+  path: string;
+  /** Unix timestamp in seconds */
+  timestamp: number;
+  nonce: string;
+  /** SHA-256 hex of the request body */
+  bodyHash: string;
+}
+
+/**
+ * Hash a request body with SHA-256
+ *
+ * @param body - Serialized request body ('' for no body)
+ * @returns SHA-256 hash as hex string
+ */
+export function hashBody(body: string): string {
+  return sha256(body);
+}
+
+/**
+ * Generate a random nonce (32 hex characters)
+ *
+ * Uses crypto.getRandomValues when available, Math.random otherwise.
+ */
+export function generateNonce(): string {
+  const bytes = new Uint8Array(16);
+  const cryptoApi = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } })
+    .crypto;
+  if (cryptoApi?.getRandomValues) {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a per-request HMAC-SHA256 signature (replay protection)
+ *
+ * The signed message is the newline-joined method, path, timestamp, nonce and
+ * body hash, so a captured signature is only valid for that exact request.
+ *
+ * @param appSecret - The chat app secret
+ * @param params - Request parameters
+ * @returns HMAC-SHA256 signature as hex string
+ */
+export function generateRequestSignature(appSecret: string, params: RequestSignatureParams): string {
+  const message = [
+    params.method.toUpperCase(),
+    params.path,
+    String(params.timestamp),
+    params.nonce,
+    params.bodyHash,
+  ].join('\n');
+  return sha256.hmac(appSecret, message);
+}
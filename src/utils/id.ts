@@ -0,0 +1,21 @@
+/**
+ * Generate a client-side unique identifier
+ *
+ * Not cryptographically secure; used for temp message ids, outbox items and
+ * similar client-generated keys.
+ */
+export function generateId(prefix = ''): string {
+  const time = Date.now().toString(36);
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${prefix}${time}-${random}`;
+}
+
+let lastTempMessageId = 0;
+
+/**
+ * Generate a temporary (negative) message id for optimistic messages
+ */
+export function generateTempMessageId(): number {
+  lastTempMessageId = Math.min(lastTempMessageId - 1, -Date.now());
+  return lastTempMessageId;
+}
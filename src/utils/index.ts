@@ -1,2 +1,48 @@
-export { generateSignature } from './hmac';
-export { ChatException, ChatApiException, UploadCancelledException } from './errors';
+export {
+  generateSignature,
+  generateRequestSignature,
+  hashBody,
+  generateNonce,
+  type RequestSignatureParams,
+} from './hmac';
+export { createHmacSigner, createRemoteSigner, type RemoteSignature } from './signer';
+export {
+  ChatException,
+  ChatApiException,
+  ChatNetworkException,
+  ChatTimeoutException,
+  ChatValidationException,
+  ChatUnauthorizedException,
+  ChatRateLimitedException,
+  ChatServerException,
+  RequestCancelledException,
+  UploadCancelledException,
+  MessageQueuedException,
+  isRetryableStatus,
+} from './errors';
+export { generateId, generateTempMessageId } from './id';
+export { computeBackoffDelay, parseRetryAfter } from './backoff';
+export {
+  createConsoleLogger,
+  createScopedLogger,
+  createLoggerFromConfig,
+  redactLogFields,
+  noopLogger,
+  type ScopedLogger,
+} from './logger';
+export {
+  MimeTypeRegistry,
+  DEFAULT_MIME_TYPES,
+  DEFAULT_MIME_TYPE,
+  getFileExtension,
+  matchesMimeType,
+} from './mime';
+export {
+  resolveUploadFile,
+  validateUploadFile,
+  applyUploadTransformers,
+  getUploadMetadata,
+  createFetchChunkReader,
+  createFileSystemChunkReader,
+  type ResolvedUploadFile,
+} from './upload';
@@ -0,0 +1,143 @@
+import type { ChatConfig, ChatLogger, LogCategory, LogEntry, LogLevel } from '../types';
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are never logged (compared lowercased, without - and _)
+ */
+const SENSITIVE_KEYS = new Set([
+  'browserkey',
+  'signature',
+  'sig',
+  'xchatsignature',
+  'appsecret',
+  'secret',
+  'token',
+  'accesstoken',
+  'authorization',
+  'password',
+  'nonce',
+  'userdata',
+  'name',
+  'phone',
+  'email',
+  'address',
+]);
+
+const MAX_REDACT_DEPTH = 5;
+
+/**
+ * Logger bound to a category
+ */
+export interface ScopedLogger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Whether a field name holds sensitive data
+ */
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEYS.has(key.replace(/[-_]/g, '').toLowerCase());
+}
+
+/**
+ * Redact a single value (recursing into objects and arrays)
+ */
+function redactValue(value: unknown, depth: number): unknown {
+  if (value instanceof Error) return value.message;
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_REDACT_DEPTH) return '[Object]';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, depth + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = isSensitiveKey(key) && item != null ? REDACTED : redactValue(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Redact browser keys, signatures, secrets and PII from log fields
+ */
+export function redactLogFields(fields: Record<string, unknown>): Record<string, unknown> {
+  return redactValue(fields, 0) as Record<string, unknown>;
+}
+
+/**
+ * Logger that writes to the console
+ */
+export function createConsoleLogger(): ChatLogger {
+  return {
+    log(entry: LogEntry): void {
+      const method = entry.level === 'debug' ? 'log' : entry.level;
+      const prefix = `[FCRM ${entry.category}] ${entry.message}`;
+      if (entry.fields && Object.keys(entry.fields).length > 0) {
+        console[method](prefix, entry.fields);
+      } else {
+        console[method](prefix);
+      }
+    },
+  };
+}
+
+/**
+ * Create a logger for one category
+ *
+ * @param logger - Log sink (entries are dropped when null)
+ * @param category - Category of every entry
+ * @param minLevel - Entries below this level are dropped (default: 'debug')
+ */
+export function createScopedLogger(
+  logger: ChatLogger | null,
+  category: LogCategory,
+  minLevel: LogLevel = 'debug'
+): ScopedLogger {
+  const write = (level: LogLevel, message: string, fields?: Record<string, unknown>): void => {
+    if (!logger || LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[minLevel]) return;
+    try {
+      logger.log({
+        level,
+        category,
+        message,
+        fields: fields ? redactLogFields(fields) : undefined,
+        timestamp: new Date(),
+      });
+    } catch {
+      // A failing log sink must not break the chat
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+  };
+}
+
+/**
+ * Logger that drops every entry
+ */
+export const noopLogger: ScopedLogger = createScopedLogger(null, 'state');
+
+/**
+ * Create a category logger from the SDK config (logger, logLevel, enableLogging)
+ */
+export function createLoggerFromConfig(
+  config: Pick<ChatConfig, 'logger' | 'logLevel' | 'enableLogging'>,
+  category: LogCategory
+): ScopedLogger {
+  const logger = config.logger ?? (config.enableLogging ? createConsoleLogger() : null);
+  return createScopedLogger(logger, category, config.logLevel);
+}
@@ -0,0 +1,98 @@
+/**
+ * Default extension → MIME type mappings
+ */
+export const DEFAULT_MIME_TYPES: Readonly<Record<string, string>> = {
+  // Images
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  svg: 'image/svg+xml',
+  // Documents
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  // Archives
+  zip: 'application/zip',
+  rar: 'application/vnd.rar',
+  '7z': 'application/x-7z-compressed',
+  // Audio
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  // Video
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  '3gp': 'video/3gpp',
+};
+
+/**
+ * Fallback MIME type for unknown extensions
+ */
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Get the lowercased extension of a file name or URI (without query string)
+ */
+export function getFileExtension(fileNameOrUri: string): string | undefined {
+  const path = fileNameOrUri.split(/[?#]/)[0];
+  const name = path.split('/').pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : undefined;
+}
+
+/**
+ * Whether a MIME type matches any of the patterns ('image/*', 'application/pdf', '*')
+ */
+export function matchesMimeType(mimeType: string, patterns: string[]): boolean {
+  const type = mimeType.toLowerCase();
+  return patterns.some((pattern) => {
+    const p = pattern.trim().toLowerCase();
+    if (p === '*' || p === '*/*') return true;
+    if (p.endsWith('/*')) return type.startsWith(p.slice(0, -1));
+    return type === p;
+  });
+}
+
+/**
+ * Extension → MIME type registry
+ */
+export class MimeTypeRegistry {
+  private types: Map<string, string>;
+
+  constructor(extra: Record<string, string> = {}) {
+    this.types = new Map(Object.entries(DEFAULT_MIME_TYPES));
+    Object.entries(extra).forEach(([extension, mimeType]) => this.register(extension, mimeType));
+  }
+
+  /**
+   * Add or override a mapping
+   */
+  register(extension: string, mimeType: string): void {
+    this.types.set(extension.replace(/^\./, '').toLowerCase(), mimeType);
+  }
+
+  /**
+   * MIME type for a file name or URI (undefined if the extension is unknown)
+   */
+  lookup(fileNameOrUri: string): string | undefined {
+    const extension = getFileExtension(fileNameOrUri);
+    return extension ? this.types.get(extension) : undefined;
+  }
+}
@@ -0,0 +1,84 @@
+import { ChatSigner, ChatSignRequest } from '../types';
+import { generateRequestSignature, generateSignature } from './hmac';
+
+/**
+ * Signature fetched from a remote source
+ */
+export interface RemoteSignature {
+  signature: string;
+  /** Lifetime in milliseconds (omit if it never expires) */
+  expiresIn?: number;
+}
+
+/**
+ * Create a signer computing HMAC signatures on the device
+ *
+ * Signs HMAC(appSecret, appKey), or the per-request signature when the request
+ * carries a timestamp, nonce and body hash. This requires the app secret in the
+ * app bundle; prefer a remote signer in production.
+ */
+export function createHmacSigner(appKey: string, appSecret: string): ChatSigner {
+  const signature = generateSignature(appKey, appSecret);
+  return {
+    sign: (request) => {
+      if (request.timestamp === undefined || request.nonce === undefined) {
+        return signature;
+      }
+      return generateRequestSignature(appSecret, {
+        method: request.method,
+        path: request.path,
+        timestamp: request.timestamp,
+        nonce: request.nonce,
+        bodyHash: request.bodyHash ?? '',
+      });
+    },
+  };
+}
+
+/**
+ * Create a signer fetching the signature (or a short-lived token) from your backend
+ *
+ * The signature is cached until shortly before it expires; concurrent requests
+ * share a single fetch. Requests with a timestamp and nonce (`requestSigning`)
+ * are never served from the cache: the backend has to sign the given method,
+ * path, timestamp, nonce and body hash on every call.
+ *
+ * @param fetchSignature - Fetches a signature from your backend
+ * @param refreshMargin - Refresh this many milliseconds before expiry (default: 30000)
+ */
+export function createRemoteSigner(
+  fetchSignature: (request: ChatSignRequest) => Promise<RemoteSignature>,
+  refreshMargin = 30000
+): ChatSigner {
+  let cached: { signature: string; expiresAt: number } | null = null;
+  let pending: Promise<string> | null = null;
+
+  return {
+    sign: (request) => {
+      if (request.timestamp !== undefined || request.nonce !== undefined) {
+        return fetchSignature(request).then((result) => result.signature);
+      }
+      if (cached && cached.expiresAt - refreshMargin > Date.now()) {
+        return cached.signature;
+      }
+      if (!pending) {
+        pending = fetchSignature(request)
+          .then((result) => {
+            cached = {
+              signature: result.signature,
+              expiresAt:
+                result.expiresIn !== undefined ? Date.now() + result.expiresIn : Number.POSITIVE_INFINITY,
+            };
+            return result.signature;
+          })
+          .finally(() => {
+            pending = null;
+          });
+      }
+      return pending;
+    },
+    invalidate: () => {
+      cached = null;
+    },
+  };
+}
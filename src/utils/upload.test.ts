@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MimeTypeRegistry } from './mime';
+import { applyUploadTransformers, getUploadMetadata, resolveUploadFile } from './upload';
+
+const mimeTypes = new MimeTypeRegistry();
+
+function stubFetch(size: number) {
+  const fetchMock = vi.fn().mockResolvedValue({ blob: async () => new Blob([new Uint8Array(size)]) });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('applyUploadTransformers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks up the size of a transformed file', async () => {
+    const fetchMock = stubFetch(1234);
+    const file = resolveUploadFile({ uri: 'file:///tmp/photo.jpg', size: 5000 }, mimeTypes);
+
+    const result = await applyUploadTransformers(
+      file,
+      [(input) => ({ ...input, uri: 'file:///tmp/photo-small.jpg', size: undefined })],
+      { kind: 'image' },
+      mimeTypes
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith('file:///tmp/photo-small.jpg');
+    expect(getUploadMetadata(result)).toMatchObject({ size: 1234 });
+  });
+
+  it('keeps the size a transformer reports', async () => {
+    const fetchMock = stubFetch(1);
+    const file = resolveUploadFile({ uri: 'file:///tmp/photo.jpg' }, mimeTypes);
+
+    const result = await applyUploadTransformers(
+      file,
+      [(input) => ({ ...input, uri: 'file:///tmp/photo-small.jpg', size: 800 })],
+      { kind: 'image' },
+      mimeTypes
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.size).toBe(800);
+  });
+
+  it('does not look up the size of an unchanged file', async () => {
+    const fetchMock = stubFetch(1);
+    const file = resolveUploadFile({ uri: 'file:///tmp/photo.jpg' }, mimeTypes);
+
+    const result = await applyUploadTransformers(
+      file,
+      [(input) => ({ ...input, metadata: { source: 'camera' } })],
+      { kind: 'image' },
+      mimeTypes
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.size).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+import type {
+  ChunkFileSystem,
+  ChunkReader,
+  UploadFile,
+  UploadLimits,
+  UploadTransformContext,
+  UploadTransformer,
+} from '../types';
+import { ChatException, ChatValidationException } from './errors';
+import { DEFAULT_MIME_TYPE, MimeTypeRegistry, matchesMimeType } from './mime';
+
+/**
+ * Upload file with name and type resolved
+ */
+export type ResolvedUploadFile = UploadFile & { name: string; type: string };
+
+/**
+ * Decode a URI segment, keeping it as is if it is not valid percent-encoding (e.g. '50%off.pdf')
+ */
+function decodeFileName(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Fill in the name and MIME type of a file to upload
+ */
+export function resolveUploadFile(
+  file: string | UploadFile,
+  mimeTypes: MimeTypeRegistry,
+  fallbackType = DEFAULT_MIME_TYPE
+): ResolvedUploadFile {
+  const upload = typeof file === 'string' ? { uri: file } : file;
+  const name = upload.name ?? decodeFileName(upload.uri.split(/[?#]/)[0].split('/').pop() || 'file');
+  const type = upload.type ?? mimeTypes.lookup(name) ?? fallbackType;
+  return { ...upload, name, type };
+}
+
+/**
+ * Run upload transformers on a file, in order
+ *
+ * When a transformer returns a new file without a size, the size is looked
+ * up, so the message metadata records the bytes actually sent.
+ *
+ * @throws ChatException if a transformer fails
+ */
+export async function applyUploadTransformers(
+  file: ResolvedUploadFile,
+  transformers: UploadTransformer[],
+  context: UploadTransformContext,
+  mimeTypes: MimeTypeRegistry
+): Promise<ResolvedUploadFile> {
+  let current = file;
+  for (const transform of transformers) {
+    try {
+      const result = await transform(current, context);
+      // A new file keeps the previous name and type, but not its size or dimensions
+      const base =
+        result.uri === current.uri
+          ? current
+          : { ...current, size: undefined, width: undefined, height: undefined };
+      current = resolveUploadFile({ ...base, ...result }, mimeTypes, current.type);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      throw new ChatException(`Upload preprocessing failed: ${message}`);
+    }
+  }
+
+  if (current.uri !== file.uri && current.size === undefined) {
+    const size = await lookupFileSize(current.uri);
+    if (size !== undefined) {
+      current = { ...current, size };
+    }
+  }
+  return current;
+}
+
+/**
+ * Message metadata describing an uploaded file (dimensions and byte size)
+ */
+export function getUploadMetadata(file: UploadFile): Record<string, unknown> {
+  const metadata: Record<string, unknown> = { ...file.metadata };
+  if (file.width !== undefined) metadata.width = file.width;
+  if (file.height !== undefined) metadata.height = file.height;
+  if (file.size !== undefined) metadata.size = file.size;
+  return metadata;
+}
+
+/**
+ * Look up the byte size of a file URI
+ *
+ * Fetches the URI as a Blob; in React Native the Blob is backed by the native
+ * file, so the content is not read into JavaScript memory.
+ * @returns The size, or undefined if it cannot be determined
+ */
+export async function lookupFileSize(uri: string): Promise<number | undefined> {
+  try {
+    const response = await fetch(uri);
+    const blob = await response.blob();
+    const size = blob.size;
+    // Release the native blob right away where supported (React Native)
+    (blob as Blob & { close?: () => void }).close?.();
+    return size;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check a file against upload limits
+ *
+ * @throws ChatValidationException (status 413 or 415) with a `file` field error
+ */
+export function validateUploadFile(file: ResolvedUploadFile, limits: UploadLimits): void {
+  const { maxFileSize, allowedTypes } = limits;
+
+  if (maxFileSize !== undefined && file.size !== undefined && file.size > maxFileSize) {
+    const message = `File is too large (${file.size} bytes, maximum ${maxFileSize} bytes)`;
+    throw new ChatValidationException(message, { file: [message] }, 413);
+  }
+
+  if (allowedTypes && allowedTypes.length > 0 && !matchesMimeType(file.type, allowedTypes)) {
+    const message = `File type ${file.type} is not allowed`;
+    throw new ChatValidationException(message, { file: [message] }, 415);
+  }
+}
+
+/**
+ * Create a chunk reader that fetches byte ranges of the file URI
+ *
+ * Each chunk is requested with a Range header. Where the URI does not support
+ * ranges (e.g. local files in React Native), the whole file is fetched once
+ * and sliced, which holds the entire file in memory for the upload; use
+ * createFileSystemChunkReader for large local files instead.
+ */
+export function createFetchChunkReader(): ChunkReader {
+  let current: { uri: string; blob: Promise<Blob> } | null = null;
+
+  return async (file, start, end) => {
+    if (!current || current.uri !== file.uri) {
+      const response = await fetch(file.uri, { headers: { Range: `bytes=${start}-${end - 1}` } });
+      if (response.status === 206) {
+        return await response.blob();
+      }
+
+      // Ranges not supported: keep the whole file for the following chunks
+      const entry = {
+        uri: file.uri,
+        blob: response.blob(),
+      };
+      current = entry;
+      // Do not keep a failed read around
+      entry.blob.catch(() => {
+        if (current === entry) current = null;
+      });
+    }
+    const blob = await current.blob;
+    return blob.slice(start, end);
+  };
+}
+
+/**
+ * Create a chunk reader that reads byte ranges from disk (e.g. with expo-file-system)
+ *
+ * Only the current chunk is held in memory: it is read as base64, written to a
+ * temporary file in the cache directory and loaded from there as a Blob.
+ *
+ * @example
+ * ```typescript
+ * import * as FileSystem from 'expo-file-system';
+ *
+ * upload: { chunked: { readChunk: createFileSystemChunkReader(FileSystem) } }
+ * ```
+ */
+export function createFileSystemChunkReader(fileSystem: ChunkFileSystem): ChunkReader {
+  return async (file, start, end) => {
+    const directory = fileSystem.cacheDirectory;
+    if (!directory) {
+      throw new ChatException('No cache directory available for upload chunks');
+    }
+
+    const data = await fileSystem.readAsStringAsync(file.uri, {
+      encoding: 'base64',
+      position: start,
+      length: end - start,
+    });
+    const chunkUri = `${directory}fcrm-chunk-${start}-${Date.now()}`;
+    await fileSystem.writeAsStringAsync(chunkUri, data, { encoding: 'base64' });
+    try {
+      const response = await fetch(chunkUri);
+      return await response.blob();
+    } finally {
+      await fileSystem.deleteAsync(chunkUri, { idempotent: true }).catch(() => undefined);
+    }
+  };
+}